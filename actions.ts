@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { formatTimestamp } from './transcript';
+import type { ActionItem, Note } from './types';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_REGEX = /^\[?(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\]?$/;
+
+// Ação acompanhada da nota de onde foi extraída (vista agregada e exportação)
+export interface NoteActionItem {
+  note: Note;
+  item: ActionItem;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'null'
+    ? value.trim()
+    : undefined;
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.max(0, value);
+
+  const match = optionalString(value)?.match(TIMESTAMP_REGEX);
+  if (!match) return undefined;
+  const [, hours, minutes, seconds] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+// Datas AAAA-MM-DD que existem no calendário (ex.: rejeita 2024-13-45 e 2024-02-30)
+function parseDueDate(value: unknown): string | undefined {
+  const date = optionalString(value);
+  if (!date || !DATE_REGEX.test(date)) return undefined;
+
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date ? date : undefined;
+}
+
+function normalizeDescription(description: string): string {
+  return description.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Valida a resposta do modelo: {"actionItems": [{description, owner, dueDate, timestamp}]}
+export function parseActionItems(response: string): ActionItem[] {
+  const json = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const parsed = JSON.parse(json);
+  const items = Array.isArray(parsed) ? parsed : parsed?.actionItems;
+
+  if (!Array.isArray(items)) {
+    throw new Error('Resposta sem a lista "actionItems"');
+  }
+
+  return items
+    .filter(item => typeof item?.description === 'string' && item.description.trim())
+    .map((item, index) => ({
+      id: `action_${Date.now()}_${index}`,
+      description: item.description.trim(),
+      owner: optionalString(item.owner),
+      dueDate: parseDueDate(item.dueDate),
+      timestamp: parseTimestamp(item.timestamp),
+      done: false,
+    }));
+}
+
+// Mantém o identificador e o estado "concluída" das ações que já existiam
+export function mergeActionItems(previous: ActionItem[], next: ActionItem[]): ActionItem[] {
+  const existing = new Map(previous.map(item => [normalizeDescription(item.description), item]));
+  return next.map(item => {
+    const match = existing.get(normalizeDescription(item.description));
+    return match ? { ...item, id: match.id, done: match.done } : item;
+  });
+}
+
+function escapeCsv(value: string): string {
+  return /[",;\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function actionItemsToCsv(items: NoteActionItem[]): string {
+  const header = ['Nota', 'Descrição', 'Responsável', 'Prazo', 'Instante', 'Concluída'];
+  const rows = items.map(({ note, item }) => [
+    note.title,
+    item.description,
+    item.owner || '',
+    item.dueDate || '',
+    item.timestamp !== undefined ? formatTimestamp(item.timestamp) : '',
+    item.done ? 'sim' : 'não',
+  ]);
+
+  // BOM para que o Excel reconheça o UTF-8
+  return '\ufeff' + [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+const ICS_LINE_OCTETS = 75;
+const utf8Encoder = new TextEncoder();
+
+// Linhas com mais de 75 octetos UTF-8 continuam na linha seguinte, começada por um espaço (RFC 5545);
+// o corte é feito entre caracteres para nunca partir uma sequência multibyte
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const character of line) {
+    const size = utf8Encoder.encode(character).length;
+    // As linhas de continuação já gastam um octeto com o espaço inicial
+    const limit = parts.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += character;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function actionItemsToIcs(items: NoteActionItem[]): string {
+  const now = formatIcsTimestamp(new Date());
+  const todos = items.flatMap(({ note, item }) => {
+    const details = [
+      item.owner ? `Responsável: ${item.owner}` : '',
+      `Nota: ${note.title}`,
+      item.timestamp !== undefined ? `Instante: ${formatTimestamp(item.timestamp)}` : '',
+    ].filter(Boolean).join('\n');
+
+    return [
+      'BEGIN:VTODO',
+      `UID:${item.id}@app-notas`,
+      `DTSTAMP:${now}`,
+      `SUMMARY:${escapeIcsText(item.description)}`,
+      `DESCRIPTION:${escapeIcsText(details)}`,
+      ...(item.dueDate ? [`DUE;VALUE=DATE:${item.dueDate.replace(/-/g, '')}`] : []),
+      `STATUS:${item.done ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+      'END:VTODO',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Notas por Ditado//Acoes//PT',
+    ...todos,
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+}
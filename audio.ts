@@ -0,0 +1,403 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Taxa de amostragem suficiente para reconhecimento de fala
+export const SPEECH_SAMPLE_RATE = 16000;
+
+// Com 'sampleRate' o áudio é reamostrado durante a descodificação (menos memória em ficheiros longos)
+export async function decodeAudio(audioBlob: Blob, sampleRate?: number): Promise<AudioBuffer> {
+  const arrayBuffer = await audioBlob.arrayBuffer();
+  const audioContext = sampleRate
+    ? new AudioContext({ sampleRate })
+    : new (window.AudioContext || (window as any).webkitAudioContext)();
+
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close().catch(() => undefined);
+  }
+}
+
+// Gera um WAV PCM de 16 bits a partir de um ou mais canais
+export function encodeWav(channelData: Float32Array[], sampleRate: number): Blob {
+  const numberOfChannels = channelData.length;
+  const length = channelData[0]?.length || 0;
+
+  const interleaved = new Float32Array(length * numberOfChannels);
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      interleaved[i * numberOfChannels + channel] = channelData[channel][i];
+    }
+  }
+
+  const buffer = new ArrayBuffer(44 + interleaved.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      view.setUint8(offset + i, str.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + interleaved.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numberOfChannels * 2, true);
+  view.setUint16(32, numberOfChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, interleaved.length * 2, true);
+
+  let offset = 44;
+  for (let i = 0; i < interleaved.length; i++, offset += 2) {
+    const sample = Math.max(-1, Math.min(1, interleaved[i]));
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+export async function resample(samples: Float32Array, fromRate: number, toRate: number = SPEECH_SAMPLE_RATE): Promise<Float32Array> {
+  if (fromRate === toRate || samples.length === 0) return samples;
+
+  const length = Math.ceil(samples.length * toRate / fromRate);
+  const offlineContext = new OfflineAudioContext(1, length, toRate);
+  const buffer = offlineContext.createBuffer(1, samples.length, fromRate);
+  buffer.getChannelData(0).set(samples);
+
+  const source = offlineContext.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offlineContext.destination);
+  source.start();
+
+  const rendered = await offlineContext.startRendering();
+  return rendered.getChannelData(0);
+}
+
+// Média de todos os canais num único canal
+export function mixToMono(audioBuffer: AudioBuffer): Float32Array {
+  if (audioBuffer.numberOfChannels === 1) return audioBuffer.getChannelData(0);
+
+  const mono = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audioBuffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+// WAV mono a 16 kHz: um canal específico da gravação ou a mistura de todos
+export async function encodeSpeechWav(audioBuffer: AudioBuffer, channel?: number): Promise<Blob> {
+  const samples = channel === undefined ? mixToMono(audioBuffer) : audioBuffer.getChannelData(channel);
+  const resampled = await resample(samples, audioBuffer.sampleRate);
+  return encodeWav([resampled], SPEECH_SAMPLE_RATE);
+}
+
+// Escritor de bits (MSB primeiro) para o FLAC
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private current = 0;
+  private bitCount = 0;
+
+  get byteLength(): number {
+    return this.length;
+  }
+
+  // Até 32 bits de um valor sem sinal
+  writeBits(value: number, bits: number): void {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      this.current = (this.current << 1) | ((value >>> bit) & 1);
+      if (++this.bitCount === 8) this.flushByte();
+    }
+  }
+
+  // Código unário do Rice: 'count' zeros seguidos de um 1
+  writeUnary(count: number): void {
+    for (let i = 0; i < count; i++) this.writeBits(0, 1);
+    this.writeBits(1, 1);
+  }
+
+  alignToByte(): void {
+    if (this.bitCount > 0) this.writeBits(0, 8 - this.bitCount);
+  }
+
+  slice(start: number, end: number = this.length): Uint8Array {
+    return this.bytes.subarray(start, end);
+  }
+
+  toBlob(type: string): Blob {
+    return new Blob([this.bytes.slice(0, this.length)], { type });
+  }
+
+  private flushByte(): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = this.current;
+    this.current = 0;
+    this.bitCount = 0;
+  }
+}
+
+const FLAC_BLOCK_SIZE = 4096;
+const FLAC_MAX_RICE_PARAMETER = 14;
+// Códigos de taxa de amostragem no cabeçalho das frames; sem código, a taxa só está no STREAMINFO
+const FLAC_SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0b0100, 16000: 0b0101, 22050: 0b0110, 24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010,
+};
+
+function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+// Número da frame em "UTF-8" (até 21 bits), como exige o cabeçalho das frames FLAC
+function writeFrameNumber(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+  } else if (value < 0x800) {
+    writer.writeBits(0xc0 | (value >> 6), 8);
+    writer.writeBits(0x80 | (value & 0x3f), 8);
+  } else if (value < 0x10000) {
+    writer.writeBits(0xe0 | (value >> 12), 8);
+    writer.writeBits(0x80 | ((value >> 6) & 0x3f), 8);
+    writer.writeBits(0x80 | (value & 0x3f), 8);
+  } else {
+    writer.writeBits(0xf0 | (value >> 18), 8);
+    writer.writeBits(0x80 | ((value >> 12) & 0x3f), 8);
+    writer.writeBits(0x80 | ((value >> 6) & 0x3f), 8);
+    writer.writeBits(0x80 | (value & 0x3f), 8);
+  }
+}
+
+// Resíduo do preditor fixo de ordem 0 a 4 (diferenças sucessivas)
+function fixedResidual(block: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(block.length - order);
+  for (let i = order; i < block.length; i++) {
+    const x = block;
+    switch (order) {
+      case 0: residual[i] = x[i]; break;
+      case 1: residual[i - 1] = x[i] - x[i - 1]; break;
+      case 2: residual[i - 2] = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+      case 3: residual[i - 3] = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+      default: residual[i - 4] = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+    }
+  }
+  return residual;
+}
+
+// Parâmetro de Rice com menos bits para o resíduo (sinal dobrado: 0, -1, 1, -2, ...)
+function chooseRiceParameter(folded: Uint32Array): { parameter: number; bits: number } {
+  let best = { parameter: 0, bits: Infinity };
+  for (let parameter = 0; parameter <= FLAC_MAX_RICE_PARAMETER; parameter++) {
+    let bits = 0;
+    for (let i = 0; i < folded.length; i++) {
+      bits += (folded[i] >>> parameter) + 1 + parameter;
+    }
+    if (bits < best.bits) best = { parameter, bits };
+  }
+  return best;
+}
+
+function writeSubframe(writer: BitWriter, block: Int32Array): void {
+  // Escolhe a ordem do preditor com o menor resíduo; bloco curto demais fica sem predição
+  let best: { order: number; folded: Uint32Array; parameter: number; bits: number } | null = null;
+  for (let order = 0; order <= Math.min(4, block.length - 1); order++) {
+    const residual = fixedResidual(block, order);
+    const folded = new Uint32Array(residual.length);
+    for (let i = 0; i < residual.length; i++) {
+      folded[i] = residual[i] >= 0 ? residual[i] * 2 : -residual[i] * 2 - 1;
+    }
+    const { parameter, bits } = chooseRiceParameter(folded);
+    const totalBits = order * 16 + 6 + bits;
+    if (!best || totalBits < best.bits) best = { order, folded, parameter, bits: totalBits };
+  }
+
+  // Áudio sem redundância (ex.: ruído): amostras sem compressão
+  if (!best || best.bits >= block.length * 16) {
+    writer.writeBits(0b00000010, 8);
+    block.forEach(sample => writer.writeBits(sample & 0xffff, 16));
+    return;
+  }
+
+  writer.writeBits(0b00010000 | (best.order << 1), 8);
+  for (let i = 0; i < best.order; i++) {
+    writer.writeBits(block[i] & 0xffff, 16);
+  }
+  // Rice com parâmetro de 4 bits e uma única partição
+  writer.writeBits(0, 2);
+  writer.writeBits(0, 4);
+  writer.writeBits(best.parameter, 4);
+  const parameter = best.parameter;
+  best.folded.forEach(value => {
+    writer.writeUnary(value >>> parameter);
+    writer.writeBits(value, parameter);
+  });
+}
+
+// FLAC mono de 16 bits (sem perdas): aceite pelo Gemini e pela API da OpenAI, mais pequeno do que o WAV
+function encodeFlac(samples: Float32Array, sampleRate: number): Blob {
+  const pcm = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7FFF);
+  }
+
+  const writer = new BitWriter();
+  writer.writeBits(0x664c6143, 32); // "fLaC"
+
+  // Bloco STREAMINFO (o único, logo o último), sem MD5
+  writer.writeBits(1, 1);
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+  writer.writeBits(FLAC_BLOCK_SIZE, 16);
+  writer.writeBits(FLAC_BLOCK_SIZE, 16);
+  writer.writeBits(0, 24);
+  writer.writeBits(0, 24);
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(0, 3); // 1 canal
+  writer.writeBits(15, 5); // 16 bits por amostra
+  writer.writeBits(Math.floor(pcm.length / 2 ** 32), 4);
+  writer.writeBits(pcm.length >>> 0, 32);
+  writer.writeBits(0, 32);
+  writer.writeBits(0, 32);
+  writer.writeBits(0, 32);
+  writer.writeBits(0, 32);
+
+  for (let frame = 0, start = 0; start < pcm.length; frame++, start += FLAC_BLOCK_SIZE) {
+    const block = pcm.subarray(start, Math.min(pcm.length, start + FLAC_BLOCK_SIZE));
+    const frameStart = writer.byteLength;
+
+    // Cabeçalho: sincronização, tamanho do bloco no fim do cabeçalho, taxa, mono, 16 bits
+    writer.writeBits(0b11111111111110, 14);
+    writer.writeBits(0, 2);
+    writer.writeBits(0b0111, 4);
+    writer.writeBits(FLAC_SAMPLE_RATE_CODES[sampleRate] ?? 0b0000, 4);
+    writer.writeBits(0b0000, 4);
+    writer.writeBits(0b100, 3);
+    writer.writeBits(0, 1);
+    writeFrameNumber(writer, frame);
+    writer.writeBits(block.length - 1, 16);
+    writer.writeBits(crc8(writer.slice(frameStart)), 8);
+
+    writeSubframe(writer, block);
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.slice(frameStart)), 16);
+  }
+
+  return writer.toBlob('audio/flac');
+}
+
+// FLAC mono a 16 kHz: um canal específico da gravação ou a mistura de todos
+export async function encodeSpeechFlac(audioBuffer: AudioBuffer, channel?: number): Promise<Blob> {
+  const samples = channel === undefined ? mixToMono(audioBuffer) : audioBuffer.getChannelData(channel);
+  return encodeFlac(await resample(samples, audioBuffer.sampleRate), SPEECH_SAMPLE_RATE);
+}
+
+// Descrição legível do formato enviado para a API
+export function describeAudioFormat(mimeType: string): string {
+  const baseType = mimeType.split(';')[0];
+  switch (baseType) {
+    case 'audio/wav': return 'WAV 16 kHz mono';
+    case 'audio/flac': return 'FLAC 16 kHz mono';
+    case 'audio/webm': return 'Opus/WebM';
+    case 'audio/ogg': return 'Opus/Ogg';
+    case 'audio/mp4': return 'AAC/MP4';
+    default: return baseType || 'desconhecido';
+  }
+}
+
+export interface PauseSegmentationOptions {
+  targetMs: number;
+  minMs: number;
+  maxMs: number;
+  // Pausa exigida depois da duração alvo e, antes dela, a pausa mais longa necessária para cortar mais cedo
+  pauseMs: number;
+  longPauseMs: number;
+  overlapMs: number;
+  silenceThreshold: number;
+  windowMs: number;
+}
+
+// Intervalo de um segmento, em segundos desde o início do áudio
+export interface AudioRange {
+  start: number;
+  end: number;
+  hasSpeech: boolean;
+}
+
+// Divide um áudio já gravado com as mesmas regras da gravação ao vivo:
+// corte numa pausa perto da duração alvo, com sobreposição entre segmentos consecutivos
+export function splitAtPauses(samples: Float32Array, sampleRate: number, options: PauseSegmentationOptions): AudioRange[] {
+  const windowSize = Math.max(1, Math.round(sampleRate * options.windowMs / 1000));
+  const windowCount = Math.ceil(samples.length / windowSize);
+  const isSpeech = new Array<boolean>(windowCount);
+
+  for (let window = 0; window < windowCount; window++) {
+    const from = window * windowSize;
+    const to = Math.min(samples.length, from + windowSize);
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      sum += samples[i] * samples[i];
+    }
+    isSpeech[window] = Math.sqrt(sum / (to - from)) >= options.silenceThreshold;
+  }
+
+  const starts = [0];
+  let lastSoundWindow = 0;
+  for (let window = 0; window < windowCount; window++) {
+    if (isSpeech[window]) lastSoundWindow = window + 1;
+
+    const elapsedMs = (window + 1 - starts[starts.length - 1]) * options.windowMs;
+    const silenceMs = (window + 1 - lastSoundWindow) * options.windowMs;
+    const requiredPause = elapsedMs >= options.targetMs ? options.pauseMs : options.longPauseMs;
+
+    if (window + 1 < windowCount && (elapsedMs >= options.maxMs ||
+      (elapsedMs >= options.minMs && silenceMs >= requiredPause))) {
+      starts.push(window + 1);
+    }
+  }
+
+  const overlapWindows = Math.round(options.overlapMs / options.windowMs);
+  const toSeconds = (window: number) => Math.min(samples.length, window * windowSize) / sampleRate;
+
+  return starts.map((startWindow, index) => {
+    const endWindow = index + 1 < starts.length
+      ? Math.min(windowCount, starts[index + 1] + overlapWindows)
+      : windowCount;
+    return {
+      start: toSeconds(startWindow),
+      end: toSeconds(endWindow),
+      hasSpeech: isSpeech.slice(startWindow, endWindow).some(Boolean),
+    };
+  });
+}
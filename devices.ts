@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const AUDIO_SOURCE_KEY = 'lastAudioSource';
+
+// Origens capturadas: microfone e áudio da aba (reunião), só o microfone ou só a aba
+export type CaptureMode = 'both' | 'mic' | 'tab';
+
+const CAPTURE_MODES: CaptureMode[] = ['both', 'mic', 'tab'];
+
+export interface AudioSourceChoice {
+  mode: CaptureMode;
+  // '' usa o microfone predefinido do sistema
+  microphoneId: string;
+}
+
+const DEFAULT_AUDIO_SOURCE: AudioSourceChoice = { mode: 'both', microphoneId: '' };
+
+// Entradas virtuais do Chrome que apontam para outro dispositivo da lista
+const VIRTUAL_DEVICE_IDS = ['default', 'communications'];
+
+export function loadAudioSourceChoice(): AudioSourceChoice {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUDIO_SOURCE_KEY) || '{}');
+    return {
+      mode: CAPTURE_MODES.includes(saved.mode) ? saved.mode : DEFAULT_AUDIO_SOURCE.mode,
+      microphoneId: typeof saved.microphoneId === 'string' ? saved.microphoneId : '',
+    };
+  } catch {
+    return { ...DEFAULT_AUDIO_SOURCE };
+  }
+}
+
+export function saveAudioSourceChoice(choice: AudioSourceChoice): void {
+  localStorage.setItem(AUDIO_SOURCE_KEY, JSON.stringify(choice));
+}
+
+export function isVirtualDevice(deviceId: string): boolean {
+  return VIRTUAL_DEVICE_IDS.includes(deviceId);
+}
+
+export function usesMicrophone(mode: CaptureMode): boolean {
+  return mode !== 'tab';
+}
+
+export function usesTabAudio(mode: CaptureMode): boolean {
+  return mode !== 'mic';
+}
+
+// Microfones físicos; os nomes só ficam disponíveis depois de o acesso ao microfone ter sido concedido
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && !isVirtualDevice(device.deviceId));
+}
+
+export function getMicrophoneLabel(device: MediaDeviceInfo, index: number): string {
+  return device.label || `Microfone ${index + 1}`;
+}
+
+// Áudio da reunião sem processamento, tal como o ouvem os participantes
+export const TAB_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+  sampleRate: 48000,
+};
+
+export function getMicrophoneConstraints(deviceId: string): MediaTrackConstraints {
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+    sampleRate: 48000,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { marked } from 'marked';
+import { getLanguage } from './languages';
+import { getSpeakerName } from './speakers';
+import type { Note, StoredSegment, TranscriptUtterance } from './types';
+
+export type ExportFormat = 'markdown' | 'html' | 'json' | 'srt' | 'vtt' | 'pdf';
+
+export const EXPORT_FILE_TYPES: Record<Exclude<ExportFormat, 'pdf'>, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+};
+
+// Etiquetas de orador usadas nas legendas
+const CAPTION_SPEAKERS = { me: 'EU', meeting: 'REUNIÃO' } as const;
+
+// Legendas longas demais são difíceis de ler; cada intervenção dura no máximo este tempo
+const MAX_CAPTION_SECONDS = 10;
+
+interface Caption {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Nome de ficheiro seguro a partir do título da nota
+export function getExportFileName(note: Note, extension: string): string {
+  const slug = note.title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return `${slug || 'nota'}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Markdown tal como devolvido pelo modelo, com a transcrição original em anexo
+export function noteToMarkdown(note: Note): string {
+  const parts = [note.polishedNote.trim() || `# ${note.title}`];
+
+  if (note.rawTranscription.trim()) {
+    parts.push(`---\n\n## Transcrição Original\n\n${note.rawTranscription.trim()}`);
+  }
+  return `${parts.join('\n\n')}\n`;
+}
+
+// Documento HTML autónomo; com 'printable' abre o diálogo de impressão (guardar como PDF)
+export function noteToHtml(note: Note, printable: boolean = false): string {
+  const body = note.polishedHtml || marked.parse(note.polishedNote);
+  const locale = getLanguage(note.outputLanguage).locale;
+  const date = new Date(note.timestamp).toLocaleString(locale);
+  const transcript = note.rawTranscription.trim()
+    ? `<section class="transcript"><h2>Transcrição Original</h2>${note.rawTranscription.trim().split('\n')
+      .map(line => `<p>${escapeHtml(line)}</p>`).join('')}</section>`
+    : '';
+
+  return `<!doctype html>
+<html lang="${locale}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(note.title)}</title>
+<style>
+  body { font-family: Inter, -apple-system, "Segoe UI", Roboto, sans-serif; max-width: 800px; margin: 40px auto; padding: 0 24px; line-height: 1.6; color: #1d1d1f; }
+  h1, h2, h3 { line-height: 1.3; }
+  .meta { color: #6e6e73; font-size: 14px; margin-bottom: 32px; }
+  .timestamp-link { color: #6e6e73; font-variant-numeric: tabular-nums; }
+  .transcript { margin-top: 48px; border-top: 1px solid #d2d2d7; }
+  .transcript p { margin: 4px 0; font-size: 14px; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 12pt; }
+    .transcript { page-break-before: always; border-top: none; }
+  }
+</style>
+</head>
+<body>
+<div class="meta">${escapeHtml(note.title)} · ${escapeHtml(date)}</div>
+${body}
+${transcript}
+${printable ? '<script>window.addEventListener("load", () => window.print());</script>' : ''}
+</body>
+</html>
+`;
+}
+
+// Nota completa, incluindo os metadados dos segmentos (sem o áudio)
+export function noteToJson(note: Note, segments: StoredSegment[]): string {
+  const segmentData = segments.map(({ blob, ...segment }) => ({
+    ...segment,
+    audioType: blob.type,
+    audioBytes: blob.size,
+  }));
+  return JSON.stringify({ ...note, segments: segmentData }, null, 2);
+}
+
+// Legendas a partir das intervenções de cada segmento, no tempo da nota
+function buildCaptions(note: Note, segments: StoredSegment[]): Caption[] {
+  const transcribed = segments.filter(segment => segment.status === 'transcribed' && segment.utterances?.length);
+  const origin = note.recordingStartedAt ?? transcribed[0]?.startTime ?? 0;
+  const captions: Caption[] = [];
+
+  transcribed.forEach(segment => {
+    const offset = Math.max(0, (segment.startTime - origin) / 1000);
+    const segmentEnd = (segment.endTime - segment.startTime) / 1000;
+    const utterances = [...segment.utterances!].sort((a, b) => a.start - b.start);
+
+    utterances.forEach((utterance: TranscriptUtterance, index) => {
+      const nextStart = utterances[index + 1]?.start ?? segmentEnd;
+      const end = utterance.end ?? Math.min(Math.max(nextStart, utterance.start + 1), utterance.start + MAX_CAPTION_SECONDS);
+      const tag = utterance.speaker && utterance.source !== 'me'
+        ? getSpeakerName(note, utterance.speaker)
+        : utterance.source ? CAPTION_SPEAKERS[utterance.source] : '';
+      const speaker = tag ? `${tag}: ` : '';
+      captions.push({ start: offset + utterance.start, end: offset + end, text: `${speaker}${utterance.text}` });
+    });
+  });
+
+  return captions.sort((a, b) => a.start - b.start);
+}
+
+function formatCaptionTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, size = 2) => String(value).padStart(size, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function noteToSrt(note: Note, segments: StoredSegment[]): string {
+  return buildCaptions(note, segments)
+    .map((caption, index) =>
+      `${index + 1}\n${formatCaptionTime(caption.start, ',')} --> ${formatCaptionTime(caption.end, ',')}\n${caption.text}\n`)
+    .join('\n');
+}
+
+export function noteToVtt(note: Note, segments: StoredSegment[]): string {
+  const cues = buildCaptions(note, segments)
+    .map(caption => `${formatCaptionTime(caption.start, '.')} --> ${formatCaptionTime(caption.end, '.')}\n${caption.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
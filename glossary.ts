@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GlossaryEntry } from './types';
+
+const GLOBAL_GLOSSARY_KEY = 'glossary';
+
+export function loadGlobalGlossary(): GlossaryEntry[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(GLOBAL_GLOSSARY_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveGlobalGlossary(entries: GlossaryEntry[]): void {
+  localStorage.setItem(GLOBAL_GLOSSARY_KEY, JSON.stringify(entries));
+}
+
+// Uma entrada por linha: "Termo" ou "Termo: variante 1, variante 2"
+export function parseGlossary(text: string): GlossaryEntry[] {
+  return text.split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const separator = line.indexOf(':');
+      const term = (separator >= 0 ? line.slice(0, separator) : line).trim();
+      const variants = separator >= 0
+        ? line.slice(separator + 1).split(',').map(variant => variant.trim()).filter(Boolean)
+        : [];
+      return { term, variants };
+    })
+    .filter(entry => entry.term);
+}
+
+export function formatGlossary(entries: GlossaryEntry[]): string {
+  return entries
+    .map(entry => entry.variants.length > 0 ? `${entry.term}: ${entry.variants.join(', ')}` : entry.term)
+    .join('\n');
+}
+
+// As entradas da nota prevalecem sobre as globais com o mesmo termo
+export function mergeGlossaries(global: GlossaryEntry[], note: GlossaryEntry[] = []): GlossaryEntry[] {
+  const terms = new Set(note.map(entry => entry.term.toLowerCase()));
+  return [...global.filter(entry => !terms.has(entry.term.toLowerCase())), ...note];
+}
+
+export function getGlossaryInstructions(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+  return 'Vocabulário específico desta reunião (nomes de pessoas, clientes, produtos e termos internos). ' +
+    `Quando forem ditos, escreve-os exatamente com esta grafia: ${entries.map(entry => entry.term).join(', ')}.`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Substitui as variantes conhecidas pelo termo correto (palavras inteiras, sem distinguir maiúsculas)
+export function applyGlossary(text: string, entries: GlossaryEntry[]): { text: string; corrections: number } {
+  let corrections = 0;
+
+  const corrected = entries.reduce((result, entry) => entry.variants.reduce((current, variant) => {
+    const regex = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(variant)}(?![\\p{L}\\p{N}])`, 'giu');
+    return current.replace(regex, (match) => {
+      if (match === entry.term) return match;
+      corrections++;
+      return entry.term;
+    });
+  }, result), text);
+
+  return { text: corrected, corrections };
+}
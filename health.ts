@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// 'muted': a faixa existe mas não entrega áudio (ex.: microfone silenciado no sistema);
+// 'ended': a captura terminou (ex.: partilha da aba parada na barra do navegador)
+export type SourceStatus = 'ok' | 'silent' | 'clipping' | 'muted' | 'ended';
+
+export interface AudioLevel {
+  rms: number;
+  peak: number;
+}
+
+// Abaixo deste nível não há sinal nenhum (um microfone ligado capta sempre algum ruído de fundo)
+const NO_SIGNAL_RMS = 0.0005;
+const SILENCE_WARNING_MS = 45 * 1000;
+const CLIPPING_PEAK = 0.99;
+const CLIPPING_WINDOW_MS = 3000;
+// Fração das medições com saturação a partir da qual o nível é considerado demasiado alto
+const CLIPPING_RATIO = 0.1;
+
+export function measureLevel(analyser: AnalyserNode, buffer: Float32Array): AudioLevel {
+  analyser.getFloatTimeDomainData(buffer);
+
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i];
+    peak = Math.max(peak, Math.abs(buffer[i]));
+  }
+  return { rms: Math.sqrt(sum / buffer.length), peak };
+}
+
+// Posição de 0 a 1 num medidor de -60 dBFS a 0 dBFS
+export function levelToMeter(rms: number): number {
+  if (rms <= 0) return 0;
+  const decibels = 20 * Math.log10(rms);
+  return Math.max(0, Math.min(1, (decibels + 60) / 60));
+}
+
+// Acompanha uma origem da gravação (uma faixa ligada a um canal) e deteta os problemas mais comuns
+export class SourceMonitor {
+  private buffer: Float32Array;
+  private lastSignalTime: number;
+  private clippingWindowStart: number;
+  private measurements = 0;
+  private clippedMeasurements = 0;
+  private clipping = false;
+
+  constructor(public analyser: AnalyserNode, public track: MediaStreamTrack, now: number = Date.now()) {
+    this.buffer = new Float32Array(analyser.fftSize);
+    this.lastSignalTime = now;
+    this.clippingWindowStart = now;
+  }
+
+  // Nova faixa da mesma origem (microfone trocado ou origem reativada)
+  replace(analyser: AnalyserNode, track: MediaStreamTrack, now: number = Date.now()): void {
+    this.analyser = analyser;
+    this.track = track;
+    this.buffer = new Float32Array(analyser.fftSize);
+    this.lastSignalTime = now;
+    this.clippingWindowStart = now;
+    this.measurements = 0;
+    this.clippedMeasurements = 0;
+    this.clipping = false;
+  }
+
+  update(now: number = Date.now()): { level: AudioLevel; status: SourceStatus } {
+    const level = measureLevel(this.analyser, this.buffer);
+
+    if (level.rms >= NO_SIGNAL_RMS) this.lastSignalTime = now;
+
+    this.measurements++;
+    if (level.peak >= CLIPPING_PEAK) this.clippedMeasurements++;
+    if (now - this.clippingWindowStart >= CLIPPING_WINDOW_MS) {
+      this.clipping = this.clippedMeasurements / this.measurements >= CLIPPING_RATIO;
+      this.clippingWindowStart = now;
+      this.measurements = 0;
+      this.clippedMeasurements = 0;
+    }
+
+    return { level, status: this.getStatus(now) };
+  }
+
+  private getStatus(now: number): SourceStatus {
+    if (this.track.readyState === 'ended') return 'ended';
+    if (this.track.muted || !this.track.enabled) return 'muted';
+    if (now - this.lastSignalTime >= SILENCE_WARNING_MS) return 'silent';
+    if (this.clipping) return 'clipping';
+    return 'ok';
+  }
+}
@@ -4,8 +4,123 @@
 */
 /* tslint:disable */
 
-import { GoogleGenAI } from '@google/genai';
 import { marked } from 'marked';
+import { actionItemsToCsv, actionItemsToIcs, mergeActionItems, NoteActionItem, parseActionItems } from './actions';
+import {
+  decodeAudio,
+  describeAudioFormat,
+  encodeSpeechFlac,
+  encodeSpeechWav,
+  encodeWav,
+  mixToMono,
+  SPEECH_SAMPLE_RATE,
+  splitAtPauses,
+} from './audio';
+import {
+  AudioSourceChoice,
+  CaptureMode,
+  getMicrophoneConstraints,
+  getMicrophoneLabel,
+  isVirtualDevice,
+  listMicrophones,
+  loadAudioSourceChoice,
+  saveAudioSourceChoice,
+  TAB_AUDIO_CONSTRAINTS,
+  usesMicrophone,
+  usesTabAudio,
+} from './devices';
+import {
+  downloadFile,
+  EXPORT_FILE_TYPES,
+  ExportFormat,
+  getExportFileName,
+  noteToHtml,
+  noteToJson,
+  noteToMarkdown,
+  noteToSrt,
+  noteToVtt,
+} from './exporters';
+import {
+  applyGlossary,
+  formatGlossary,
+  getGlossaryInstructions,
+  loadGlobalGlossary,
+  mergeGlossaries,
+  parseGlossary,
+  saveGlobalGlossary,
+} from './glossary';
+import { levelToMeter, SourceMonitor, SourceStatus } from './health';
+import {
+  AUTO_DETECT_LABEL,
+  DEFAULT_OUTPUT_LANGUAGE,
+  getLanguage,
+  getTranscriptionInstructions,
+  LanguageCode,
+  LANGUAGES,
+  SpokenLanguage,
+} from './languages';
+import { NotePlayer } from './player';
+import {
+  GeminiProvider,
+  loadOpenAICompatibleSettings,
+  NoteProvider,
+  OpenAICompatibleProvider,
+  PROVIDER_LABELS,
+  saveOpenAICompatibleSettings,
+} from './providers';
+import { withRetry } from './retry';
+import { highlightTerms, SearchIndex, SearchMatch, SearchResult, tokenize } from './search';
+import {
+  AppSettings,
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_SETTINGS,
+  getGeminiApiKey,
+  getSegmentationTiming,
+  loadSettings,
+  saveSettings,
+} from './settings';
+import {
+  getDiarizationInstructions,
+  getSpeakerName,
+  listSpeakers,
+  renameSpeakerInTranscript,
+  SPEAKER_LABEL_PREFIX,
+} from './speakers';
+import { NoteStore } from './storage';
+import {
+  DEFAULT_TEMPLATE_ID,
+  getAllTemplates,
+  getTemplate,
+  loadCustomTemplates,
+  renderTemplate,
+  saveCustomTemplates,
+  SummaryTemplate,
+} from './templates';
+import { formatTimestamp, linkTimestamps, trimLeadingOverlap } from './transcript';
+import {
+  estimateCost,
+  formatCost,
+  formatTokens,
+  getMonthKey,
+  groupUsageByMonth,
+  summarizeUsage,
+  usageToCsv,
+  type UsageTotals,
+} from './usage';
+import type {
+  ActionItem,
+  AudioSegment,
+  AudioSource,
+  ChatMessage,
+  GlossaryEntry,
+  Note,
+  ProviderId,
+  StoredSegment,
+  TokenUsage,
+  TranscriptUtterance,
+  UsageKind,
+  UsageRecord,
+} from './types';
 
 declare global {
   interface Window {
@@ -13,8 +128,6 @@ declare global {
   }
 }
 
-const MODEL_NAME = 'gemini-2.5-flash';
-
 // Constantes para evitar strings repetidas
 const MESSAGES = {
   READY_TO_RECORD: 'Pronto para gravar',
@@ -29,42 +142,120 @@ const MESSAGES = {
   AUDIO_IN_USE: 'Não é possível acessar o áudio. Pode estar a ser utilizado por outra aplicação.',
   NOTE_SAVED: 'Nota salva com sucesso no navegador',
   NO_NOTE_TO_SAVE: 'Nenhuma nota para salvar',
+  NOTE_OPENED: 'Nota aberta',
+  NO_NOTES: 'Ainda não há notas guardadas.',
+  NO_SEARCH_RESULTS: 'Nenhuma nota corresponde à pesquisa.',
+  NOTE_DELETED: 'Nota eliminada',
+  NOTE_RENAMED: 'Nota renomeada',
+  NOTES_MIGRATED: 'notas antigas importadas para a biblioteca',
+  UNFINISHED_SESSION: 'Foi encontrada uma sessão de gravação inacabada:',
+  SESSION_RECOVERED: 'Sessão recuperada. A transcrever segmentos pendentes...',
+  NO_STORED_SEGMENTS: 'Esta nota não tem áudio guardado',
+  RETRANSCRIBING: 'A transcrever novamente o áudio guardado...',
+  CONFIRM_RETRANSCRIBE: 'Substituir a transcrição atual por uma nova transcrição do áudio guardado?',
+  SEGMENT_RETRY_SCHEDULED: 'Falha temporária no segmento',
+  SEGMENT_FAILED: 'Falha ao transcrever o segmento',
+  CONFIRM_DELETE_NOTE: 'Eliminar esta nota permanentemente?',
+  RENAME_NOTE_PROMPT: 'Novo título da nota:',
+  BUSY_RECORDING: 'Pare a gravação antes de abrir outra nota',
+  UNTITLED_NOTE: 'Nota sem título',
   TRANSCRIPTION_COMPLETE: 'Transcrição completa. A melhorar a nota...',
   NOTE_IMPROVED: 'Nota melhorada. Pronto para a próxima gravação.',
-  CONTINUOUS_RECORDING: 'Gravação contínua ativa - processando a cada 2 minutos',
+  SILENT_SEGMENT_SKIPPED: 'Segmento sem fala ignorado',
+  CONSOLIDATING_NOTE: 'A consolidar a nota final...',
+  NOTE_EXPORTED: 'Nota exportada',
+  NO_NOTE_TO_EXPORT: 'Nenhuma nota para exportar',
+  POPUP_BLOCKED: 'Permita janelas pop-up para imprimir a nota',
+  DECODING_FILE: 'A descodificar o ficheiro',
+  FILE_IMPORTED: 'Ficheiro importado e transcrito',
+  IMPORT_FAILED: 'Não foi possível importar o ficheiro',
+  UNSUPPORTED_FILE: 'Formato não suportado (escolha um ficheiro de áudio ou vídeo):',
+  BUSY_IMPORTING: 'Pare a gravação antes de importar ficheiros',
+  IMPORT_IN_PROGRESS: 'Aguarde o fim da importação em curso',
+  PROCESSING_IN_PROGRESS: 'Aguarde o fim da transcrição em curso',
+  CONFIRM_REGENERATE: 'Gerar novamente a nota melhorada com o modelo',
+  REGENERATING_NOTE: 'A gerar novamente a nota com o novo modelo...',
+  TEMPLATE_SAVED: 'Modelo de resumo guardado',
+  CONFIRM_DELETE_TEMPLATE: 'Eliminar este modelo de resumo?',
+  MISSING_API_KEY: 'Indique a chave API do Gemini nas definições',
+  SETTINGS_SAVED: 'Definições guardadas',
+  CONFIRM_TRANSLATE: 'Gerar novamente a nota melhorada em',
+  EXTRACTING_ACTIONS: 'A extrair as ações da reunião...',
+  ACTIONS_EXTRACTED: 'ações extraídas',
+  ACTIONS_FAILED: 'Não foi possível extrair as ações',
+  NO_ACTIONS_TO_EXPORT: 'Não há ações para exportar',
+  CHAT_THINKING: 'A procurar a resposta...',
+  CHAT_ANSWERED: 'Resposta pronta',
+  CHAT_FAILED: 'Não foi possível obter uma resposta. Tenta novamente.',
+  CHAT_NO_TRANSCRIPT: 'Esta nota ainda não tem transcrição para responder a perguntas.',
+  CHAT_NO_PASSAGES: 'Não foram encontradas passagens relevantes nas notas guardadas.',
+  SPEAKERS_SAVED: 'Nomes dos oradores atualizados',
+  CONFIRM_SPEAKERS_REGENERATE: 'Gerar novamente a nota melhorada com os nomes dos oradores?',
+  GLOSSARY_SAVED: 'Glossário guardado',
+  GLOSSARY_CORRECTIONS: 'correções aplicadas à transcrição',
+  BUDGET_EXCEEDED: 'Orçamento mensal excedido',
+  BUDGET_SUMMARY_PAUSED: 'Orçamento mensal excedido: as atualizações automáticas do resumo estão paradas',
+  NO_USAGE: 'Ainda não há consumo registado.',
+  CONTINUOUS_RECORDING: 'Gravação contínua ativa - processando a cada',
   PROCESSING_SEGMENT: 'Processando segmento em segundo plano...',
   RECORDING_CONTINUOUS: 'Gravando continuamente (sem interrupções)',
+  NO_TAB_AUDIO: 'Não foi partilhado áudio da aba. Escolha uma aba e ative "Partilhar áudio do separador".',
+  MICROPHONE_SWITCHED: 'Microfone alterado',
+  SOURCE_REACQUIRED: 'Origem de áudio reativada',
+  SOURCE_REACQUIRE_FAILED: 'Não foi possível reativar',
+  DEFAULT_MICROPHONE: 'microfone predefinido',
+  RECORDING_PAUSED: 'Gravação em pausa',
+  RECORDING_RESUMED: 'Gravação retomada',
+  PAUSE_MARKER: 'Gravação em pausa durante',
 } as const;
 
-const AUDIO_TAGS = {
-  MEETING_OPEN: '[REUNIÃO]',
-  MEETING_CLOSE: '[/REUNIÃO]',
-  USER_OPEN: '[EU]',
-  USER_CLOSE: '[/EU]',
-} as const;
-
-interface Note {
-  id: string;
-  rawTranscription: string;
-  polishedNote: string;
-  timestamp: number;
-}
-
-interface AudioSegment {
-  blob: Blob;
-  startTime: number;
-  endTime: number;
+// Nomes das origens e descrição dos problemas nos medidores de nível da gravação
+const SOURCE_LABELS: Record<AudioSource, string> = {
+  me: 'Microfone',
+  meeting: 'Aba da reunião',
+};
+
+const SOURCE_STATUS_MESSAGES: Record<SourceStatus, string> = {
+  ok: '',
+  silent: 'sem sinal há mais de 45 s',
+  clipping: 'nível demasiado alto (saturação)',
+  muted: 'silenciado',
+  ended: 'captura terminada',
+};
+
+// Etiquetas de orador por origem do áudio
+const SPEAKER_TAGS: Record<AudioSource, string> = {
+  meeting: '[REUNIÃO]',
+  me: '[EU]',
+};
+
+type RecorderSlot = 'primary' | 'secondary';
+
+interface RecorderSegmentInfo {
+  noteId: string;
   segmentNumber: number;
+  startTime: number;
+  // Indica se foi detetada fala durante a gravação do segmento
+  hasSpeech: boolean;
+  // Fala detetada em cada canal, pela ordem de 'channelLayout'
+  channelSpeech: boolean[];
+  pauseBeforeMs?: number;
 }
 
 class VoiceNotesApp {
-  private genAI: any;
+  private geminiProvider: GeminiProvider | null = null;
+  private noteStore = new NoteStore();
+  private searchIndex = new SearchIndex();
   private primaryRecorder: MediaRecorder | null = null;
   private secondaryRecorder: MediaRecorder | null = null;
-  private activeRecorder: 'primary' | 'secondary' = 'primary';
+  private activeRecorder: RecorderSlot = 'primary';
 
   // Elementos DOM
   private recordButton!: HTMLButtonElement;
+  private pauseButton!: HTMLButtonElement;
+  private sourceDialog!: HTMLDialogElement;
+  private sourceMeters!: HTMLDivElement;
+  private sourceForm!: HTMLFormElement;
   private recordingStatus!: HTMLDivElement;
   private rawTranscription!: HTMLDivElement;
   private polishedNote!: HTMLDivElement;
@@ -79,28 +270,125 @@ class VoiceNotesApp {
   private liveWaveformCtx: CanvasRenderingContext2D | null = null;
   private liveRecordingTimerDisplay!: HTMLDivElement;
   private statusIndicatorDiv!: HTMLDivElement | null;
+  private appContainer!: HTMLDivElement;
+  private notesList!: HTMLUListElement;
+  private notesListEmpty!: HTMLDivElement;
+  private sidebarNewButton!: HTMLButtonElement;
+  private searchInput!: HTMLInputElement;
+  private searchFromDate!: HTMLInputElement;
+  private searchToDate!: HTMLInputElement;
+  private libraryToggleButton!: HTMLButtonElement;
+  private retranscribeButton!: HTMLButtonElement;
+  private recoveryBanner!: HTMLDivElement;
+  private recoveryMessage!: HTMLSpanElement;
+  private recoveryResumeButton!: HTMLButtonElement;
+  private recoveryDiscardButton!: HTMLButtonElement;
+  private providerSelect!: HTMLSelectElement;
+  private providerSettingsButton!: HTMLButtonElement;
+  private settingsButton!: HTMLButtonElement;
+  private settingsDialog!: HTMLDialogElement;
+  private settingsForm!: HTMLFormElement;
+  private failedSegmentsPanel!: HTMLDivElement;
+  private failedSegmentsList!: HTMLUListElement;
+  private retryAllButton!: HTMLButtonElement;
+  private exportButton!: HTMLButtonElement;
+  private exportDialog!: HTMLDialogElement;
+  private importButton!: HTMLButtonElement;
+  private importFileInput!: HTMLInputElement;
+  private templateSelect!: HTMLSelectElement;
+  private participantsInput!: HTMLInputElement;
+  private templateSettingsButton!: HTMLButtonElement;
+  private templateDialog!: HTMLDialogElement;
+  private speakersButton!: HTMLButtonElement;
+  private glossaryButton!: HTMLButtonElement;
+  private usageButton!: HTMLButtonElement;
+  private usageDialog!: HTMLDialogElement;
+  private usageContent!: HTMLDivElement;
+  private glossaryDialog!: HTMLDialogElement;
+  private glossaryForm!: HTMLFormElement;
+  private speakersDialog!: HTMLDialogElement;
+  private speakersForm!: HTMLFormElement;
+  private templateForm!: HTMLFormElement;
+  private customTemplatesList!: HTMLUListElement;
+  private spokenLanguageSelect!: HTMLSelectElement;
+  private outputLanguageSelect!: HTMLSelectElement;
+  private actionItemsView!: HTMLDivElement;
+  private actionItemsList!: HTMLUListElement;
+  private actionItemsEmpty!: HTMLDivElement;
+  private extractActionsButton!: HTMLButtonElement;
+  private chatView!: HTMLDivElement;
+  private chatMessages!: HTMLDivElement;
+  private chatEmpty!: HTMLDivElement;
+  private chatForm!: HTMLFormElement;
+  private chatInput!: HTMLInputElement;
+  private notePlayer: NotePlayer | null = null;
 
   // Estado da aplicação
   private primaryAudioChunks: Blob[] = [];
   private secondaryAudioChunks: Blob[] = [];
   private isRecording = false;
   private isContinuousMode = false;
+  // Em pausa os streams continuam abertos, mas nenhum recorder está a gravar
+  private isPaused = false;
+  private pausedAt = 0;
+  private pausedTotalMs = 0;
+  private pendingPauseMs = 0;
   private currentNote: Note | null = null;
-  private openingTags: string = '';
-  private closingTags: string = '';
+  private channelLayout: AudioSource[] = [];
   private segmentCount = 0;
   private accumulatedTranscription = '';
   private accumulatedPolishedNote = '';
-  private processingQueue: AudioSegment[] = [];
+  private processingQueue: StoredSegment[] = [];
   private isProcessingSegment = false;
+  // Entre parar a gravação e marcar a nota como concluída (já com isRecording a false)
+  private isFinalizingRecording = false;
+  private failedSegments: StoredSegment[] = [];
+  private pendingSummarySegments: { segmentNumber: number; text: string }[] = [];
+  // Ciclo de resumos contínuos em curso; os segmentos que chegam entretanto esperam pelo pedido seguinte
+  private rollingSummaryRun: Promise<void> | null = null;
+  private pendingConsolidation = false;
+  // Número total de segmentos do ficheiro a ser importado (para indicar o progresso)
+  private importSegmentTotal: number | null = null;
+  private isImporting = false;
+  // Âmbito da lista de ações: só a nota aberta ou todas as notas
+  private actionItemsScope: 'note' | 'all' = 'note';
+  private searchDebounceTimer: number | null = null;
+  // Conversa do painel de perguntas (recomeça ao mudar de nota)
+  private chatHistory: ChatMessage[] = [];
+  private chatScope: 'note' | 'all' = 'note';
+  private isAnswering = false;
+  // Pedido de resumo em curso, cancelado quando um pedido mais recente o substitui
+  private summaryAbortController: AbortController | null = null;
+  private streamedPolishedText = '';
+  private polishedRenderFrame: number | null = null;
+  // Custo do mês civil atual, atualizado a cada pedido (para o orçamento)
+  private monthlyCost = 0;
+  private budgetWarningShown = false;
+  private recorderSegments: Record<RecorderSlot, RecorderSegmentInfo | null> = {
+    primary: null,
+    secondary: null,
+  };
 
   // Streams e contexto de áudio
   private stream: MediaStream | null = null;
   private screenStream: MediaStream | null = null;
   private micStream: MediaStream | null = null;
+  // Contexto que junta as origens num stream multicanal; guarda a entrada de cada canal para trocar o microfone
+  private mixContext: AudioContext | null = null;
+  private channelMerger: ChannelMergerNode | null = null;
+  private channelInputs: MediaStreamAudioSourceNode[] = [];
+  private audioSourceChoice: AudioSourceChoice = loadAudioSourceChoice();
+  private knownMicrophoneIds = new Set<string>();
+  private isSwappingMicrophone = false;
+  // Nível e estado de cada origem, pela ordem de 'channelLayout'
+  private sourceMonitors: SourceMonitor[] = [];
+  private sourceStatuses: SourceStatus[] = [];
+  private sourceErrors: (string | null)[] = [];
   private audioContext: AudioContext | null = null;
   private analyserNode: AnalyserNode | null = null;
   private waveformDataArray: Uint8Array | null = null;
+  private vadDataArray: Uint8Array | null = null;
+  private lastSoundTime: number = 0;
 
 
 
@@ -112,21 +400,32 @@ class VoiceNotesApp {
   //private currentSegmentStartTime: number = 0;
   private segmentStartTime: number = 0;
 
-  // Configurações
-  private readonly SEGMENT_DURATION_MS = 2 * 60 * 1000; // 2 minutos
+  // Configurações (duração dos segmentos e sobreposição vêm das definições)
+  private settings: AppSettings = loadSettings();
+  private readonly PAUSE_DURATION_MS = 700; // Pausa suficiente depois da duração alvo
+  private readonly LONG_PAUSE_DURATION_MS = 1500; // Pausa exigida antes da duração alvo
+  private readonly SILENCE_RMS_THRESHOLD = 0.01;
+  private readonly VAD_CHECK_INTERVAL_MS = 100;
+  private readonly CHUNK_TIMESLICE_MS = 10 * 1000; // Áudio guardado a cada 10 segundos
+  private readonly MAX_TRANSCRIPTION_RETRIES = 4;
+  private readonly RETRY_BASE_DELAY_MS = 2000;
+  private readonly SEARCH_DEBOUNCE_MS = 200;
+  private readonly SEARCH_HIGHLIGHT_MS = 3000;
+  private readonly CHAT_HISTORY_MESSAGES = 6; // Mensagens anteriores enviadas com cada pergunta
+  private readonly CHAT_PASSAGE_LIMIT = 12; // Passagens recuperadas da biblioteca por pergunta
+  private readonly SPEAKER_CONTEXT_TURNS = 6; // Intervenções anteriores enviadas para manter os oradores
 
   constructor() {
-    this.genAI = new GoogleGenAI({
-      apiKey: process.env.API_KEY!,
-      apiVersion: 'v1beta',
-    });
-
     this.initializeElements();
     this.bindEventListeners();
     this.initTheme();
+    this.initSidebar();
+    this.initProviderSelect();
+    this.initLanguageSelects();
+    this.refreshTemplateSelect();
     this.createNewNote();
-    this.saveNewNote();
     this.setStatus(MESSAGES.READY_TO_RECORD);
+    this.initializeLibrary();
   }
 
   // Utilitários para elementos DOM
@@ -148,6 +447,10 @@ class VoiceNotesApp {
 
   private initializeElements(): void {
     this.recordButton = this.getElement<HTMLButtonElement>('recordButton');
+    this.pauseButton = this.getElement<HTMLButtonElement>('pauseButton');
+    this.sourceDialog = this.getElement<HTMLDialogElement>('sourceDialog');
+    this.sourceMeters = this.getElement<HTMLDivElement>('sourceMeters');
+    this.sourceForm = this.getElement<HTMLFormElement>('sourceForm');
     this.recordingStatus = this.getElement<HTMLDivElement>('recordingStatus');
     this.rawTranscription = this.getElement<HTMLDivElement>('rawTranscription');
     this.polishedNote = this.getElement<HTMLDivElement>('polishedNote');
@@ -160,6 +463,67 @@ class VoiceNotesApp {
     this.liveRecordingTitle = this.getElement<HTMLDivElement>('liveRecordingTitle');
     this.liveWaveformCanvas = this.getElement<HTMLCanvasElement>('liveWaveformCanvas');
     this.liveRecordingTimerDisplay = this.getElement<HTMLDivElement>('liveRecordingTimerDisplay');
+    this.appContainer = this.querySelector<HTMLDivElement>('.app-container');
+    this.notesList = this.getElement<HTMLUListElement>('notesList');
+    this.notesListEmpty = this.getElement<HTMLDivElement>('notesListEmpty');
+    this.sidebarNewButton = this.getElement<HTMLButtonElement>('sidebarNewButton');
+    this.searchInput = this.getElement<HTMLInputElement>('searchInput');
+    this.searchFromDate = this.getElement<HTMLInputElement>('searchFromDate');
+    this.searchToDate = this.getElement<HTMLInputElement>('searchToDate');
+    this.libraryToggleButton = this.getElement<HTMLButtonElement>('libraryToggleButton');
+    this.retranscribeButton = this.getElement<HTMLButtonElement>('retranscribeButton');
+    this.recoveryBanner = this.getElement<HTMLDivElement>('recoveryBanner');
+    this.recoveryMessage = this.getElement<HTMLSpanElement>('recoveryMessage');
+    this.recoveryResumeButton = this.getElement<HTMLButtonElement>('recoveryResumeButton');
+    this.recoveryDiscardButton = this.getElement<HTMLButtonElement>('recoveryDiscardButton');
+    this.providerSelect = this.getElement<HTMLSelectElement>('providerSelect');
+    this.providerSettingsButton = this.getElement<HTMLButtonElement>('providerSettingsButton');
+    this.settingsButton = this.getElement<HTMLButtonElement>('settingsButton');
+    this.settingsDialog = this.getElement<HTMLDialogElement>('settingsDialog');
+    this.settingsForm = this.getElement<HTMLFormElement>('settingsForm');
+    this.failedSegmentsPanel = this.getElement<HTMLDivElement>('failedSegmentsPanel');
+    this.failedSegmentsList = this.getElement<HTMLUListElement>('failedSegmentsList');
+    this.retryAllButton = this.getElement<HTMLButtonElement>('retryAllButton');
+    this.exportButton = this.getElement<HTMLButtonElement>('exportButton');
+    this.exportDialog = this.getElement<HTMLDialogElement>('exportDialog');
+    this.importButton = this.getElement<HTMLButtonElement>('importButton');
+    this.importFileInput = this.getElement<HTMLInputElement>('importFileInput');
+    this.templateSelect = this.getElement<HTMLSelectElement>('templateSelect');
+    this.participantsInput = this.getElement<HTMLInputElement>('participantsInput');
+    this.templateSettingsButton = this.getElement<HTMLButtonElement>('templateSettingsButton');
+    this.templateDialog = this.getElement<HTMLDialogElement>('templateDialog');
+    this.speakersButton = this.getElement<HTMLButtonElement>('speakersButton');
+    this.glossaryButton = this.getElement<HTMLButtonElement>('glossaryButton');
+    this.usageButton = this.getElement<HTMLButtonElement>('usageButton');
+    this.usageDialog = this.getElement<HTMLDialogElement>('usageDialog');
+    this.usageContent = this.getElement<HTMLDivElement>('usageContent');
+    this.glossaryDialog = this.getElement<HTMLDialogElement>('glossaryDialog');
+    this.glossaryForm = this.getElement<HTMLFormElement>('glossaryForm');
+    this.speakersDialog = this.getElement<HTMLDialogElement>('speakersDialog');
+    this.speakersForm = this.getElement<HTMLFormElement>('speakersForm');
+    this.templateForm = this.getElement<HTMLFormElement>('templateForm');
+    this.customTemplatesList = this.getElement<HTMLUListElement>('customTemplatesList');
+    this.spokenLanguageSelect = this.getElement<HTMLSelectElement>('spokenLanguageSelect');
+    this.outputLanguageSelect = this.getElement<HTMLSelectElement>('outputLanguageSelect');
+    this.actionItemsView = this.getElement<HTMLDivElement>('actionItemsView');
+    this.actionItemsList = this.getElement<HTMLUListElement>('actionItemsList');
+    this.actionItemsEmpty = this.getElement<HTMLDivElement>('actionItemsEmpty');
+    this.extractActionsButton = this.getElement<HTMLButtonElement>('extractActionsButton');
+    this.chatView = this.getElement<HTMLDivElement>('chatView');
+    this.chatMessages = this.getElement<HTMLDivElement>('chatMessages');
+    this.chatEmpty = this.getElement<HTMLDivElement>('chatEmpty');
+    this.chatForm = this.getElement<HTMLFormElement>('chatForm');
+    this.chatInput = this.getElement<HTMLInputElement>('chatInput');
+
+    const playerContainer = this.getElement<HTMLDivElement>('notePlayer');
+    if (playerContainer) {
+      this.notePlayer = new NotePlayer({
+        container: playerContainer,
+        toggleButton: this.getElement<HTMLButtonElement>('playerToggleButton'),
+        seekInput: this.getElement<HTMLInputElement>('playerSeek'),
+        timeLabel: this.getElement<HTMLSpanElement>('playerTime'),
+      });
+    }
 
     if (this.liveWaveformCanvas) {
       this.liveWaveformCtx = this.liveWaveformCanvas.getContext('2d');
@@ -172,9 +536,93 @@ class VoiceNotesApp {
 
   private bindEventListeners(): void {
     this.recordButton?.addEventListener('click', () => this.toggleRecording());
-    this.newButton?.addEventListener('click', () => this.createNewNote());
-    this.saveButton?.addEventListener('click', () => this.saveNewNote());
+    this.pauseButton?.addEventListener('click', () => this.togglePause());
+    this.sourceForm?.addEventListener('change', () => this.updateSourceFormState());
+    this.sourceForm?.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.saveSourceForm();
+    });
+    this.newButton?.addEventListener('click', () => this.requestNewNote());
+    this.sidebarNewButton?.addEventListener('click', () => this.requestNewNote());
+    this.searchInput?.addEventListener('input', () => {
+      if (this.searchDebounceTimer) window.clearTimeout(this.searchDebounceTimer);
+      this.searchDebounceTimer = window.setTimeout(() => this.renderNotesList(), this.SEARCH_DEBOUNCE_MS);
+    });
+    this.searchFromDate?.addEventListener('change', () => this.renderNotesList());
+    this.searchToDate?.addEventListener('change', () => this.renderNotesList());
+    this.saveButton?.addEventListener('click', () => this.saveCurrentNote());
     this.themeToggleButton?.addEventListener('click', () => this.toggleTheme());
+    this.libraryToggleButton?.addEventListener('click', () => this.toggleSidebar());
+    this.retranscribeButton?.addEventListener('click', () => this.retranscribeCurrentNote());
+    this.retryAllButton?.addEventListener('click', () => this.retryFailedSegments());
+    this.providerSelect?.addEventListener('change', () => this.changeNoteProvider(this.providerSelect.value as ProviderId));
+    this.providerSettingsButton?.addEventListener('click', () => this.openSettings());
+    this.settingsButton?.addEventListener('click', () => this.openSettings());
+    this.glossaryButton?.addEventListener('click', () => this.openGlossary());
+    this.usageButton?.addEventListener('click', () => this.openUsage());
+    this.usageDialog?.querySelector('[data-action="export-usage"]')?.addEventListener('click', () => this.exportUsage());
+    this.glossaryForm?.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.saveGlossaryForm();
+    });
+    this.settingsForm?.addEventListener('submit', () => this.saveSettingsForm());
+    this.exportButton?.addEventListener('click', () => this.exportDialog?.showModal());
+    this.exportDialog?.querySelectorAll<HTMLButtonElement>('[data-format]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.exportDialog.close();
+        this.exportCurrentNote(button.dataset.format as ExportFormat);
+      });
+    });
+    this.importButton?.addEventListener('click', () => this.importFileInput?.click());
+    this.importFileInput?.addEventListener('change', () => {
+      const files = Array.from(this.importFileInput.files || []);
+      this.importFileInput.value = '';
+      this.importFiles(files);
+    });
+    this.initFileDrop();
+    this.templateSelect?.addEventListener('change', () => this.changeNoteTemplate(this.templateSelect.value));
+    this.participantsInput?.addEventListener('change', () => this.changeNoteParticipants());
+    this.templateSettingsButton?.addEventListener('click', () => this.openTemplateSettings());
+    this.speakersButton?.addEventListener('click', () => this.openSpeakers());
+    this.speakersForm?.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.saveSpeakerNames();
+    });
+    this.spokenLanguageSelect?.addEventListener('change', () => this.changeSpokenLanguage(this.spokenLanguageSelect.value as SpokenLanguage));
+    this.outputLanguageSelect?.addEventListener('change', () => this.changeOutputLanguage(this.outputLanguageSelect.value as LanguageCode));
+    this.templateForm?.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.saveTemplateFromForm();
+    });
+    this.templateForm?.querySelector('[data-action="new"]')?.addEventListener('click', () => this.editTemplate(null));
+    this.extractActionsButton?.addEventListener('click', () => this.extractActionItems());
+    this.actionItemsView?.querySelectorAll<HTMLButtonElement>('[data-scope]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.actionItemsScope = button.dataset.scope as 'note' | 'all';
+        this.renderActionItems();
+      });
+    });
+    this.actionItemsView?.querySelectorAll<HTMLButtonElement>('[data-export]').forEach(button => {
+      button.addEventListener('click', () => this.exportActionItems(button.dataset.export as 'csv' | 'ics'));
+    });
+    this.actionItemsView?.addEventListener('click', (event) => this.handleTimestampClick(event));
+    this.chatView?.querySelectorAll<HTMLButtonElement>('[data-chat-scope]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.chatScope = button.dataset.chatScope as 'note' | 'all';
+        this.renderChat();
+      });
+    });
+    this.chatForm?.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.askQuestion(this.chatInput.value);
+    });
+    this.chatView?.querySelector('#chatClearButton')?.addEventListener('click', () => {
+      this.chatHistory = [];
+      this.renderChat();
+    });
+    this.chatMessages?.addEventListener('click', (event) => this.handleTimestampClick(event));
+    this.rawTranscription?.addEventListener('click', (event) => this.handleTimestampClick(event));
+    this.polishedNote?.addEventListener('click', (event) => this.handleTimestampClick(event));
     window.addEventListener('resize', this.handleResize.bind(this));
   }
 
@@ -197,6 +645,16 @@ class VoiceNotesApp {
     this.stream = null;
     this.screenStream = null;
     this.micStream = null;
+
+    if (navigator.mediaDevices) navigator.mediaDevices.ondevicechange = null;
+    this.sourceMonitors = [];
+    this.sourceStatuses = [];
+    this.sourceErrors = [];
+    this.sourceMeters?.replaceChildren();
+    this.channelInputs = [];
+    this.channelMerger = null;
+    this.mixContext?.close().catch(() => undefined);
+    this.mixContext = null;
   }
 
   // Utilitário para limpeza de contexto de áudio
@@ -211,6 +669,7 @@ class VoiceNotesApp {
     this.audioContext = null;
     this.analyserNode = null;
     this.waveformDataArray = null;
+    this.vadDataArray = null;
   }
 
   // Utilitário para limpeza de animações
@@ -255,23 +714,6 @@ class VoiceNotesApp {
     }
   }
 
-  // Configurar tags de áudio baseado nos streams disponíveis
-  private setupAudioTags(hasTabAudio: boolean, hasMicAudio: boolean): void {
-    if (hasTabAudio && hasMicAudio) {
-      this.openingTags = `${AUDIO_TAGS.MEETING_OPEN}${AUDIO_TAGS.USER_OPEN}`;
-      this.closingTags = `${AUDIO_TAGS.MEETING_CLOSE}${AUDIO_TAGS.USER_CLOSE}`;
-    } else if (hasTabAudio) {
-      this.openingTags = AUDIO_TAGS.MEETING_OPEN;
-      this.closingTags = AUDIO_TAGS.MEETING_CLOSE;
-    } else if (hasMicAudio) {
-      this.openingTags = AUDIO_TAGS.USER_OPEN;
-      this.closingTags = AUDIO_TAGS.USER_CLOSE;
-    } else {
-      this.openingTags = '';
-      this.closingTags = '';
-    }
-  }
-
   private handleResize(): void {
     if (this.isRecording && this.liveWaveformCanvas?.style.display === 'block') {
       requestAnimationFrame(() => this.setupCanvasDimensions());
@@ -308,801 +750,2879 @@ class VoiceNotesApp {
     this.themeToggleIcon?.classList.toggle('fa-sun', !isLight);
   }
 
-  private async toggleRecording(): Promise<void> {
-    if (!this.isRecording) {
-      await this.startContinuousRecording();
-    } else {
-      await this.stopContinuousRecording();
-    }
+  private initSidebar(): void {
+    const savedState = localStorage.getItem('sidebarCollapsed');
+    const collapsed = savedState ? savedState === 'true' : window.innerWidth <= 768;
+    this.appContainer?.classList.toggle('sidebar-collapsed', collapsed);
   }
 
-  private async startContinuousRecording(): Promise<void> {
-    try {
-      this.isContinuousMode = true;
-      this.segmentCount = 1;
-      this.accumulatedTranscription = '';
-      this.accumulatedPolishedNote = '';
-      this.processingQueue = [];
-      this.isProcessingSegment = false;
+  private toggleSidebar(): void {
+    const collapsed = !this.appContainer?.classList.contains('sidebar-collapsed');
+    this.appContainer?.classList.toggle('sidebar-collapsed', collapsed);
+    localStorage.setItem('sidebarCollapsed', String(collapsed));
+  }
 
-      await this.setupStreams();
-      await this.startDualRecording();
+  // Fornecedores de transcrição e resumo
+  private initProviderSelect(): void {
+    if (!this.providerSelect) return;
 
-      if (this.isRecording) {
-        this.setStatus(MESSAGES.RECORDING_CONTINUOUS);
-        this.setupSegmentTimer();
-      }
-    } catch (error) {
-      console.error('Erro ao iniciar gravação contínua:', error);
-      this.isContinuousMode = false;
-      this.handleRecordingError(error);
-    }
+    (Object.keys(PROVIDER_LABELS) as ProviderId[]).forEach(id => {
+      this.providerSelect.add(new Option(PROVIDER_LABELS[id], id));
+    });
   }
 
-  private async stopContinuousRecording(): Promise<void> {
-    this.isContinuousMode = false;
-    this.cleanupAnimations();
-
-    // Processar último segmento se necessário
-    if (this.isRecording) {
-      await this.finalizeContinuousRecording();
-    }
+  // Língua falada (transcrição) e língua da nota melhorada, escolhidas por nota
+  private initLanguageSelects(): void {
+    const languageOptions = () => (Object.keys(LANGUAGES) as LanguageCode[])
+      .map(code => new Option(LANGUAGES[code].label, code));
 
-    await this.stopDualRecording();
-    this.cleanupStreams();
+    this.spokenLanguageSelect?.replaceChildren(new Option(AUTO_DETECT_LABEL, 'auto'), ...languageOptions());
+    this.outputLanguageSelect?.replaceChildren(...languageOptions());
   }
 
-  private async setupStreams(): Promise<void> {
-    this.cleanupStreams();
-    await this.cleanupAudioContext();
+  private getDefaultSpokenLanguage(): SpokenLanguage {
+    return (localStorage.getItem('lastSpokenLanguage') as SpokenLanguage) || 'auto';
+  }
 
-    this.setStatus(MESSAGES.REQUESTING_ACCESS);
+  private getDefaultOutputLanguage(): LanguageCode {
+    return (localStorage.getItem('lastOutputLanguage') as LanguageCode) || DEFAULT_OUTPUT_LANGUAGE;
+  }
 
-    // Capturar streams
-    const streams = await this.captureAudioStreams();
-    this.screenStream = streams.screen;
-    this.micStream = streams.mic;
+  private updateLanguageSelects(): void {
+    if (this.spokenLanguageSelect) {
+      this.spokenLanguageSelect.value = this.currentNote?.spokenLanguage || 'auto';
+    }
+    if (this.outputLanguageSelect) {
+      this.outputLanguageSelect.value = this.currentNote?.outputLanguage || DEFAULT_OUTPUT_LANGUAGE;
+    }
+  }
 
-    const hasTabAudio = !!(this.screenStream?.getAudioTracks().length);
-    const hasMicAudio = !!(this.micStream?.getAudioTracks().length);
+  private async changeSpokenLanguage(language: SpokenLanguage): Promise<void> {
+    localStorage.setItem('lastSpokenLanguage', language);
+    if (!this.currentNote) return;
 
-    this.setupAudioTags(hasTabAudio, hasMicAudio);
-    this.stream = await this.setupFinalStream(hasTabAudio, hasMicAudio);
+    this.currentNote.spokenLanguage = language;
+    if (this.hasValidContent(this.rawTranscription) || this.hasValidContent(this.polishedNote)) {
+      await this.saveCurrentNote(true);
+    }
   }
 
-  private async startDualRecording(): Promise<void> {
-    // Reset chunks
-    this.primaryAudioChunks = [];
-    this.secondaryAudioChunks = [];
-
-    // Configurar ambos os recorders
-    this.setupDualMediaRecorders();
+  private async changeOutputLanguage(language: LanguageCode): Promise<void> {
+    localStorage.setItem('lastOutputLanguage', language);
+    if (!this.currentNote) return;
 
-    // Iniciar gravação primary
-    this.activeRecorder = 'primary';
-    this.primaryRecorder!.start();
-    this.segmentStartTime = Date.now();
+    this.currentNote.outputLanguage = language;
+    if (!this.hasValidContent(this.rawTranscription) || this.isRecording) return;
 
-    this.isRecording = true;
-    this.recordButton?.classList.add('recording');
-    this.recordButton?.setAttribute('title', 'Parar Gravação');
-    this.startLiveDisplay();
+    if (window.confirm(`${MESSAGES.CONFIRM_TRANSLATE} ${LANGUAGES[language].label.toLowerCase()}?`)) {
+      await this.regeneratePolishedNote();
+    } else {
+      await this.saveCurrentNote(true);
+    }
   }
 
-  private async stopDualRecording(): Promise<void> {
-    if (this.primaryRecorder && this.primaryRecorder.state === 'recording') {
-      this.primaryRecorder.stop();
-    }
-    if (this.secondaryRecorder && this.secondaryRecorder.state === 'recording') {
-      this.secondaryRecorder.stop();
-    }
+  // Modelos de resumo (incorporados e definidos pelo utilizador)
+  private refreshTemplateSelect(): void {
+    if (!this.templateSelect) return;
 
-    this.isRecording = false;
-    this.recordButton?.classList.remove('recording');
-    this.recordButton?.setAttribute('title', 'Iniciar Gravação');
-    this.stopLiveDisplay();
+    const selected = this.currentNote?.templateId || this.getDefaultTemplateId();
+    this.templateSelect.replaceChildren(...getAllTemplates()
+      .map(template => new Option(template.name, template.id)));
+    this.templateSelect.value = getTemplate(selected).id;
   }
 
-  private setupDualMediaRecorders(): void {
-    const mimeType = this.getSupportedMimeType();
+  private getDefaultTemplateId(): string {
+    return localStorage.getItem('lastTemplate') || DEFAULT_TEMPLATE_ID;
+  }
 
-    // Setup Primary Recorder
-    this.primaryRecorder = new MediaRecorder(this.stream!, { mimeType });
-    this.setupRecorderEvents(this.primaryRecorder, 'primary');
+  private async changeNoteTemplate(templateId: string): Promise<void> {
+    localStorage.setItem('lastTemplate', templateId);
+    if (!this.currentNote) return;
 
-    // Setup Secondary Recorder  
-    this.secondaryRecorder = new MediaRecorder(this.stream!, { mimeType });
-    this.setupRecorderEvents(this.secondaryRecorder, 'secondary');
+    this.currentNote.templateId = templateId;
+    if (!this.hasValidContent(this.rawTranscription) || this.isRecording) return;
+
+    if (window.confirm(`${MESSAGES.CONFIRM_REGENERATE} "${getTemplate(templateId).name}"?`)) {
+      await this.regeneratePolishedNote();
+    } else {
+      await this.saveCurrentNote(true);
+    }
   }
 
-  private getSupportedMimeType(): string {
-    const types = [
-      'audio/webm;codecs=opus',
-      'audio/webm',
-      'audio/mp4',
-      'audio/ogg;codecs=opus'
-    ];
+  private async changeNoteParticipants(): Promise<void> {
+    if (!this.currentNote) return;
 
-    for (const type of types) {
-      if (MediaRecorder.isTypeSupported(type)) {
-        return type;
-      }
+    this.currentNote.participants = this.participantsInput.value.trim();
+    if (this.hasValidContent(this.rawTranscription) || this.hasValidContent(this.polishedNote)) {
+      await this.saveCurrentNote(true);
     }
-    return '';
   }
 
-  private setupRecorderEvents(recorder: MediaRecorder, type: 'primary' | 'secondary'): void {
-    recorder.ondataavailable = (event) => {
-      if (event.data?.size > 0) {
-        if (type === 'primary') {
-          this.primaryAudioChunks.push(event.data);
-        } else {
-          this.secondaryAudioChunks.push(event.data);
-        }
+  // Lista as vozes identificadas na transcrição, com a primeira intervenção de cada uma como referência
+  private openSpeakers(): void {
+    const note = this.currentNote;
+    const fields = this.speakersForm?.querySelector<HTMLDivElement>('#speakersFields');
+    if (!note || !fields) return;
+
+    const transcriptLines = this.accumulatedTranscription.split('\n');
+    const labels = listSpeakers(note, this.accumulatedTranscription);
+
+    fields.replaceChildren(...labels.map(label => {
+      const name = getSpeakerName(note, label);
+      const sample = transcriptLines.find(line => line.includes(`] [${name}] `))?.split(`[${name}] `)[1];
+
+      const field = document.createElement('label');
+      field.className = 'dialog-field';
+
+      const title = document.createElement('span');
+      title.textContent = label;
+
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.dataset.speaker = label;
+      input.value = name === label ? '' : name;
+      input.placeholder = label;
+
+      field.append(title, input);
+      if (sample) {
+        const hint = document.createElement('small');
+        hint.className = 'speaker-sample';
+        hint.textContent = `"${sample.length > 80 ? `${sample.slice(0, 80)}…` : sample}"`;
+        field.appendChild(hint);
       }
-    };
+      return field;
+    }));
 
-    recorder.onstop = () => {
-      const chunks = type === 'primary' ? this.primaryAudioChunks : this.secondaryAudioChunks;
+    this.speakersForm.querySelector('#speakersEmpty')?.classList.toggle('hidden', labels.length > 0);
+    this.speakersDialog.showModal();
+  }
 
-      if (chunks.length > 0) {
-        const audioBlob = new Blob(chunks, { type: recorder.mimeType });
-        const segment: AudioSegment = {
-          blob: audioBlob,
-          startTime: this.segmentStartTime,
-          endTime: Date.now(),
-          segmentNumber: this.segmentCount + 1
-        };
+  // Aplica os nomes à transcrição original e ao campo de participantes
+  private async saveSpeakerNames(): Promise<void> {
+    const note = this.currentNote;
+    if (!note) return;
+
+    const speakerNames = { ...(note.speakerNames || {}) };
+    let participants = (note.participants || '').split(',').map(name => name.trim()).filter(Boolean);
+    let transcript = this.accumulatedTranscription;
+    let changed = false;
+
+    this.speakersForm.querySelectorAll<HTMLInputElement>('input[data-speaker]').forEach(input => {
+      const label = input.dataset.speaker!;
+      const previousName = getSpeakerName(note, label);
+      const newName = input.value.trim() || label;
+      if (newName === previousName) return;
+
+      changed = true;
+      transcript = renameSpeakerInTranscript(transcript, previousName, newName);
+      participants = participants.filter(name => name !== previousName);
+      if (newName !== label) {
+        speakerNames[label] = newName;
+        if (!participants.includes(newName)) participants.push(newName);
+      } else {
+        delete speakerNames[label];
+      }
+    });
 
-        this.processingQueue.push(segment);
-        this.processNextSegment();
+    this.speakersDialog.close();
+    if (!changed) return;
 
-        // Limpar chunks após criar o blob
-        if (type === 'primary') {
-          this.primaryAudioChunks = [];
-        } else {
-          this.secondaryAudioChunks = [];
-        }
-      }
-    };
+    note.speakerNames = speakerNames;
+    note.participants = participants.join(', ');
+    if (this.participantsInput) {
+      this.participantsInput.value = note.participants;
+    }
+    this.accumulatedTranscription = transcript;
+    note.rawTranscription = transcript;
+    this.updateTranscriptionDisplay(transcript);
+    this.setStatus(MESSAGES.SPEAKERS_SAVED);
+
+    if (!this.isRecording && this.hasValidContent(this.polishedNote) &&
+      window.confirm(MESSAGES.CONFIRM_SPEAKERS_REGENERATE)) {
+      await this.regeneratePolishedNote();
+    } else {
+      await this.saveCurrentNote(true);
+    }
   }
 
-  private setupSegmentTimer(): void {
-    if (this.segmentIntervalId) {
-      clearInterval(this.segmentIntervalId);
+  // Gera a nota melhorada de raiz a partir da transcrição completa
+  private async regeneratePolishedNote(): Promise<void> {
+    this.setStatus(MESSAGES.REGENERATING_NOTE);
+    this.pendingSummarySegments = [];
+
+    const prompt = `
+          Tens de transformar esta transcrição bruta de uma reunião num resumo estruturado, limpo e consistente.
+          ${this.getNoteFormatInstructions()}
+          Transcrição bruta:
+          ${this.accumulatedTranscription}
+          `;
+
+    if (await this.requestPolishedNote(prompt)) {
+      this.setStatus(MESSAGES.NOTE_IMPROVED);
+      await this.extractActionItems();
     }
+  }
 
-    this.segmentIntervalId = window.setInterval(() => {
-      if (this.isContinuousMode && this.isRecording) {
-        this.switchRecorders();
-      }
-    }, this.SEGMENT_DURATION_MS);
+  private openTemplateSettings(): void {
+    if (!this.templateDialog) return;
+
+    this.renderCustomTemplates();
+    this.editTemplate(null);
+    this.templateDialog.showModal();
   }
 
-  private switchRecorders(): void {
-    if (!this.isContinuousMode || !this.isRecording) return;
+  private renderCustomTemplates(): void {
+    if (!this.customTemplatesList) return;
 
-    try {
-      const currentRecorder = this.activeRecorder === 'primary' ? this.primaryRecorder : this.secondaryRecorder;
-      const nextRecorder = this.activeRecorder === 'primary' ? this.secondaryRecorder : this.primaryRecorder;
+    this.customTemplatesList.replaceChildren(...loadCustomTemplates().map(template => {
+      const item = document.createElement('li');
+      item.className = 'template-list-item';
 
-      if (!currentRecorder || !nextRecorder) return;
+      const name = document.createElement('span');
+      name.className = 'note-list-title';
+      name.textContent = template.name;
 
-      // Parar o recorder atual (isso vai triggerar o onstop e processar o segmento)
-      if (currentRecorder.state === 'recording') {
-        currentRecorder.stop();
-      }
+      item.append(
+        name,
+        this.createSidebarButton('fa-pen', 'Editar', () => this.editTemplate(template)),
+        this.createSidebarButton('fa-trash', 'Eliminar', () => this.deleteTemplate(template.id)),
+      );
+      return item;
+    }));
+  }
 
-      // Iniciar o próximo recorder imediatamente
-      this.activeRecorder = this.activeRecorder === 'primary' ? 'secondary' : 'primary';
-      this.segmentStartTime = Date.now();
-      nextRecorder.start();
+  // Sem modelo, o formulário começa com o formato do modelo atualmente escolhido
+  private editTemplate(template: SummaryTemplate | null): void {
+    if (!this.templateForm) return;
 
-      console.log(`Switched to ${this.activeRecorder} recorder for segment ${this.segmentCount + 1}`);
+    const base = template || getTemplate(this.templateSelect?.value);
+    const field = (name: string) => this.templateForm.elements.namedItem(name) as HTMLInputElement | HTMLTextAreaElement;
+    field('templateId').value = template?.id || '';
+    field('templateName').value = template?.name || '';
+    field('templateFormat').value = base.format;
+  }
 
-    } catch (error) {
-      console.error('Erro ao alternar recorders:', error);
-    }
+  private saveTemplateFromForm(): void {
+    const data = new FormData(this.templateForm);
+    const name = String(data.get('templateName') || '').trim();
+    const format = String(data.get('templateFormat') || '').trim();
+    if (!name || !format) return;
+
+    const id = String(data.get('templateId') || '') || `custom_${Date.now()}`;
+    const templates = loadCustomTemplates().filter(template => template.id !== id);
+    templates.push({ id, name, format });
+    saveCustomTemplates(templates);
+
+    this.refreshTemplateSelect();
+    this.renderCustomTemplates();
+    this.editTemplate(null);
+    this.setStatus(MESSAGES.TEMPLATE_SAVED);
   }
 
-  private async processNextSegment(): Promise<void> {
-    if (this.isProcessingSegment || this.processingQueue.length === 0) {
-      return;
-    }
+  private deleteTemplate(id: string): void {
+    if (!window.confirm(MESSAGES.CONFIRM_DELETE_TEMPLATE)) return;
 
-    this.isProcessingSegment = true;
-    const segment = this.processingQueue.shift()!;
+    saveCustomTemplates(loadCustomTemplates().filter(template => template.id !== id));
+    this.refreshTemplateSelect();
+    this.renderCustomTemplates();
+  }
 
-    try {
-      this.setStatus(`${MESSAGES.PROCESSING_SEGMENT} (Segmento ${segment.segmentNumber})`);
-      await this.processAudioSegment(segment);
-    } catch (error) {
-      console.error(`Erro ao processar segmento ${segment.segmentNumber}:`, error);
-    } finally {
-      this.isProcessingSegment = false;
+  private getDefaultProviderId(): ProviderId {
+    return (localStorage.getItem('lastProvider') as ProviderId) || 'gemini';
+  }
 
-      // Processar próximo segmento se houver
-      if (this.processingQueue.length > 0) {
-        setTimeout(() => this.processNextSegment(), 100);
-      } else if (this.isContinuousMode) {
-        this.setStatus(MESSAGES.RECORDING_CONTINUOUS);
+  private getProvider(): NoteProvider {
+    const providerId = this.currentNote?.providerId || 'gemini';
+
+    if (providerId === 'openai-compatible') {
+      return new OpenAICompatibleProvider(loadOpenAICompatibleSettings());
+    }
+
+    if (!this.geminiProvider) {
+      const apiKey = getGeminiApiKey(this.settings);
+      if (!apiKey) {
+        throw new Error(MESSAGES.MISSING_API_KEY);
       }
+      this.geminiProvider = new GeminiProvider(apiKey, this.settings.geminiTranscriptionModel, this.settings.geminiSummaryModel);
     }
+    return this.geminiProvider;
   }
 
-  private async finalizeContinuousRecording(): Promise<void> {
-    // Parar recorder ativo para capturar último segmento
-    const activeRecorderObj = this.activeRecorder === 'primary' ? this.primaryRecorder : this.secondaryRecorder;
+  private async changeNoteProvider(providerId: ProviderId): Promise<void> {
+    localStorage.setItem('lastProvider', providerId);
+    if (!this.currentNote) return;
 
-    if (activeRecorderObj && activeRecorderObj.state === 'recording') {
-      activeRecorderObj.stop();
+    this.currentNote.providerId = providerId;
+    if (this.hasValidContent(this.rawTranscription) || this.hasValidContent(this.polishedNote)) {
+      await this.saveCurrentNote(true);
     }
+  }
 
-    // Aguardar processamento de todos os segmentos
-    let attempts = 0;
-    while ((this.processingQueue.length > 0 || this.isProcessingSegment) && attempts < 50) {
-      await new Promise(resolve => setTimeout(resolve, 200));
-      attempts++;
-    }
+  // Sem chave API do Gemini, abre as definições em vez de começar a gravar
+  private ensureProviderConfigured(): boolean {
+    const providerId = this.currentNote?.providerId || 'gemini';
+    if (providerId !== 'gemini' || getGeminiApiKey(this.settings)) return true;
+
+    this.setStatus(MESSAGES.MISSING_API_KEY);
+    this.openSettings();
+    return false;
   }
 
-  private async processAudioSegment(segment: AudioSegment): Promise<void> {
-    if (segment.blob.size === 0) {
-      console.warn(`Segmento ${segment.segmentNumber} vazio`);
-      return;
-    }
+  // Glossário global (guardado no navegador) somado ao vocabulário da nota aberta
+  private getGlossary(): GlossaryEntry[] {
+    return mergeGlossaries(loadGlobalGlossary(), this.currentNote?.glossary);
+  }
 
-    try {
-      const wavBlob = await this.convertToWav(segment.blob);
-      const base64Audio = await this.blobToBase64(wavBlob);
+  private openGlossary(): void {
+    if (!this.glossaryDialog || !this.glossaryForm) return;
 
-      if (!base64Audio) {
-        throw new Error('Falha ao converter áudio para base64');
-      }
+    const fields = this.glossaryForm.elements;
+    (fields.namedItem('globalGlossary') as HTMLTextAreaElement).value = formatGlossary(loadGlobalGlossary());
+    (fields.namedItem('noteGlossary') as HTMLTextAreaElement).value = formatGlossary(this.currentNote?.glossary || []);
+    this.glossaryDialog.showModal();
+  }
 
-      await this.getSegmentTranscription(base64Audio, segment.segmentNumber);
-    } catch (error) {
-      console.error(`Erro ao processar segmento ${segment.segmentNumber}:`, error);
-      throw error;
+  // Guarda os glossários e aplica as correções conhecidas à transcrição já existente
+  private async saveGlossaryForm(): Promise<void> {
+    const fields = this.glossaryForm.elements;
+    saveGlobalGlossary(parseGlossary((fields.namedItem('globalGlossary') as HTMLTextAreaElement).value));
+    if (this.currentNote) {
+      this.currentNote.glossary = parseGlossary((fields.namedItem('noteGlossary') as HTMLTextAreaElement).value);
+    }
+    this.glossaryDialog.close();
+
+    const { text, corrections } = applyGlossary(this.accumulatedTranscription, this.getGlossary());
+    if (corrections > 0) {
+      this.accumulatedTranscription = text;
+      this.updateTranscriptionDisplay(text);
+      this.setStatus(`${MESSAGES.GLOSSARY_SAVED}: ${corrections} ${MESSAGES.GLOSSARY_CORRECTIONS}`);
+    } else {
+      this.setStatus(MESSAGES.GLOSSARY_SAVED);
+    }
+
+    if (this.hasValidContent(this.rawTranscription) || this.hasValidContent(this.polishedNote)) {
+      await this.saveCurrentNote(true);
     }
   }
 
-  private setupAudioVisualizer(): void {
-    if (!this.stream || this.audioContext) return;
+  private openSettings(): void {
+    if (!this.settingsDialog || !this.settingsForm) return;
 
-    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const source = this.audioContext.createMediaStreamSource(this.stream);
-    this.analyserNode = this.audioContext.createAnalyser();
+    const settings = { ...loadOpenAICompatibleSettings(), ...this.settings };
+    Object.entries(settings).forEach(([key, value]) => {
+      const input = this.settingsForm.elements.namedItem(key) as HTMLInputElement | HTMLSelectElement | null;
+      if (input) input.value = String(value);
+    });
+    this.settingsDialog.showModal();
+  }
 
-    this.analyserNode.fftSize = 256;
-    this.analyserNode.smoothingTimeConstant = 0.75;
+  private saveSettingsForm(): void {
+    const data = new FormData(this.settingsForm);
+    const text = (name: string) => String(data.get(name) || '').trim();
 
-    const bufferLength = this.analyserNode.frequencyBinCount;
-    this.waveformDataArray = new Uint8Array(bufferLength);
+    saveOpenAICompatibleSettings({
+      baseUrl: text('baseUrl'),
+      apiKey: text('apiKey'),
+      transcriptionModel: text('transcriptionModel'),
+      chatModel: text('chatModel'),
+    });
 
+    this.settings = {
+      geminiApiKey: text('geminiApiKey'),
+      geminiTranscriptionModel: text('geminiTranscriptionModel') || DEFAULT_GEMINI_MODEL,
+      geminiSummaryModel: text('geminiSummaryModel') || DEFAULT_GEMINI_MODEL,
+      segmentDurationSeconds: Number(text('segmentDurationSeconds')) || DEFAULT_SETTINGS.segmentDurationSeconds,
+      segmentOverlapSeconds: Number(text('segmentOverlapSeconds')),
+      uploadFormat: text('uploadFormat') === 'compressed' ? 'compressed' : 'wav',
+      monthlyBudgetUsd: Math.max(0, Number(text('monthlyBudgetUsd')) || 0),
+      budgetAction: text('budgetAction') === 'stop' ? 'stop' : 'warn',
+    };
+    saveSettings(this.settings);
+    this.budgetWarningShown = false;
+    this.updateUsageIndicator();
 
-    source.connect(this.analyserNode);
+    // O fornecedor Gemini é recriado com a nova chave e modelos
+    this.geminiProvider = null;
+    this.setStatus(MESSAGES.SETTINGS_SAVED);
   }
 
-  private drawLiveWaveform(): void {
-    const canDrawWaveform = this.analyserNode && this.waveformDataArray &&
-      this.liveWaveformCtx && this.liveWaveformCanvas && this.isRecording;
-
-    if (!canDrawWaveform) {
-      this.cleanupAnimations();
+  private async toggleRecording(): Promise<void> {
+    if (this.isImporting) {
+      this.setStatus(MESSAGES.IMPORT_IN_PROGRESS);
       return;
     }
 
-    this.waveformDrawingId = requestAnimationFrame(() => this.drawLiveWaveform());
-    this.analyserNode!.getByteFrequencyData(this.waveformDataArray!);
+    if (!this.isRecording) {
+      await this.openSourcePicker();
+    } else {
+      await this.stopContinuousRecording();
+    }
+  }
 
-    const ctx = this.liveWaveformCtx!;
-    const canvas = this.liveWaveformCanvas!;
-    const logicalWidth = canvas.clientWidth;
-    const logicalHeight = canvas.clientHeight;
+  private async togglePause(): Promise<void> {
+    if (!this.isRecording || !this.isContinuousMode) return;
 
-    ctx.clearRect(0, 0, logicalWidth, logicalHeight);
+    if (this.isPaused) {
+      this.resumeRecording();
+    } else {
+      await this.pauseRecording();
+    }
+  }
+
+  // Termina o segmento atual (que segue para transcrição) sem fechar os streams nem a sessão
+  private async pauseRecording(): Promise<void> {
+    this.isPaused = true;
+    this.pausedAt = Date.now();
+    this.updatePauseControls();
+    this.setStatus(MESSAGES.RECORDING_PAUSED);
+
+    // Só é possível retomar depois de os recorders terem entregue o último áudio
+    if (this.pauseButton) this.pauseButton.disabled = true;
+    try {
+      await this.stopActiveRecorders();
+    } finally {
+      if (this.pauseButton) this.pauseButton.disabled = false;
+    }
+  }
+
+  // Continua a numeração dos segmentos; o próximo segmento fica a saber quanto tempo durou a pausa
+  private resumeRecording(): void {
+    if (!this.primaryRecorder || [this.primaryRecorder, this.secondaryRecorder].some(recorder => recorder?.state === 'recording')) return;
+
+    const pauseMs = Date.now() - this.pausedAt;
+    this.pausedTotalMs += pauseMs;
+    this.pendingPauseMs += pauseMs;
+    this.isPaused = false;
+
+    this.activeRecorder = 'primary';
+    this.startSegment(this.primaryRecorder, 'primary');
+    this.lastSoundTime = Date.now();
+    this.updatePauseControls();
+    this.setStatus(MESSAGES.RECORDING_RESUMED);
+  }
+
+  private updatePauseControls(): void {
+    this.recordingInterface?.classList.toggle('is-paused', this.isPaused);
+    this.pauseButton?.setAttribute('title', this.isPaused ? 'Retomar Gravação' : 'Pausar Gravação');
+
+    const icon = this.pauseButton?.querySelector('i');
+    icon?.classList.toggle('fa-pause', !this.isPaused);
+    icon?.classList.toggle('fa-play', this.isPaused);
+  }
+
+  // Escolha das origens antes de cada gravação, com a última escolha já selecionada
+  private async openSourcePicker(): Promise<void> {
+    if (!this.ensureProviderConfigured() || !this.sourceDialog || !this.sourceForm) return;
+
+    const choice = loadAudioSourceChoice();
+    (this.sourceForm.elements.namedItem('captureMode') as HTMLSelectElement).value = choice.mode;
+    await this.renderMicrophoneOptions(choice.microphoneId);
+    this.updateSourceFormState();
+    this.sourceDialog.showModal();
+  }
+
+  private async renderMicrophoneOptions(selectedId: string): Promise<void> {
+    const select = this.sourceForm.elements.namedItem('microphoneId') as HTMLSelectElement;
+    select.innerHTML = '<option value="">Microfone predefinido do sistema</option>';
+
+    try {
+      const microphones = await listMicrophones();
+      microphones.forEach((device, index) => {
+        select.appendChild(new Option(getMicrophoneLabel(device, index), device.deviceId));
+      });
+    } catch (error) {
+      console.error('Erro ao listar os microfones:', error);
+    }
+
+    // Um microfone escolhido antes mas agora desligado fica no predefinido
+    select.value = [...select.options].some(option => option.value === selectedId) ? selectedId : '';
+  }
+
+  private updateSourceFormState(): void {
+    const mode = (this.sourceForm.elements.namedItem('captureMode') as HTMLSelectElement).value as CaptureMode;
+    (this.sourceForm.elements.namedItem('microphoneId') as HTMLSelectElement).disabled = !usesMicrophone(mode);
+  }
+
+  private async saveSourceForm(): Promise<void> {
+    const fields = this.sourceForm.elements;
+    this.audioSourceChoice = {
+      mode: (fields.namedItem('captureMode') as HTMLSelectElement).value as CaptureMode,
+      microphoneId: (fields.namedItem('microphoneId') as HTMLSelectElement).value,
+    };
+    saveAudioSourceChoice(this.audioSourceChoice);
+    this.sourceDialog.close();
+
+    await this.startContinuousRecording();
+  }
+
+  private async startContinuousRecording(): Promise<void> {
+    if (!this.ensureProviderConfigured()) return;
+
+    try {
+      this.isContinuousMode = true;
+      this.processingQueue = [];
+      this.isProcessingSegment = false;
+
+      await this.setupStreams();
+      await this.startDualRecording();
+      await this.setRecordingStatus('recording');
+
+      if (this.isRecording) {
+        this.setStatus(`${MESSAGES.CONTINUOUS_RECORDING} ${this.formatSegmentDuration()}`);
+        this.setupSegmentTimer();
+      }
+    } catch (error) {
+      console.error('Erro ao iniciar gravação contínua:', error);
+      this.isContinuousMode = false;
+      this.handleRecordingError(error);
+    }
+  }
+
+  private async stopContinuousRecording(): Promise<void> {
+    this.isContinuousMode = false;
+    this.isPaused = false;
+    this.updatePauseControls();
+    this.cleanupAnimations();
+    this.isFinalizingRecording = true;
+
+    try {
+      // Processar último segmento se necessário
+      if (this.isRecording) {
+        await this.finalizeContinuousRecording();
+      }
+
+      await this.stopDualRecording();
+      this.cleanupStreams();
+
+      this.pendingConsolidation = true;
+      await this.maybeConsolidatePolishedNote();
+
+      await this.saveCurrentNote(true);
+      await this.setRecordingStatus('complete');
+    } finally {
+      this.isFinalizingRecording = false;
+    }
+    await this.loadNotePlayer();
+  }
+
+  // Marca a nota como em gravação para permitir recuperar a sessão após uma falha
+  private async setRecordingStatus(status: 'recording' | 'complete'): Promise<void> {
+    if (!this.currentNote) return;
+
+    try {
+      this.currentNote.recordingStatus = status;
+      this.currentNote.updatedAt = Date.now();
+      await this.noteStore.saveNote(this.currentNote);
+      await this.refreshNotesList();
+    } catch (error) {
+      console.error('Erro ao atualizar o estado da gravação:', error);
+    }
+  }
+
+  private async setupStreams(): Promise<void> {
+    this.cleanupStreams();
+    await this.cleanupAudioContext();
+
+    this.setStatus(MESSAGES.REQUESTING_ACCESS);
+
+    // Capturar streams
+    const streams = await this.captureAudioStreams(this.audioSourceChoice);
+    this.screenStream = streams.screen;
+    this.micStream = streams.mic;
+
+    const hasTabAudio = !!(this.screenStream?.getAudioTracks().length);
+    const hasMicAudio = !!(this.micStream?.getAudioTracks().length);
+
+    // Cada origem fica num canal próprio: aba da reunião e microfone
+    const sources: { source: AudioSource; stream: MediaStream }[] = [];
+    if (hasTabAudio) sources.push({ source: 'meeting', stream: this.screenStream! });
+    if (hasMicAudio) sources.push({ source: 'me', stream: this.micStream! });
+
+    this.channelLayout = sources.map(({ source }) => source);
+    this.stream = this.createMultichannelStream(sources.map(({ stream }) => stream));
+    this.setupSourceMonitors(sources.map(({ stream }) => stream));
+
+    if (hasMicAudio) {
+      this.knownMicrophoneIds = new Set((await listMicrophones()).map(device => device.deviceId));
+      this.watchMicrophoneTrack();
+      navigator.mediaDevices.ondevicechange = () => this.handleDeviceChange();
+    }
+  }
+
+  // Desligar o microfone em uso (ex.: auscultadores USB) termina a faixa sem disparar 'devicechange' em todos os navegadores
+  private watchMicrophoneTrack(): void {
+    this.micStream?.getAudioTracks().forEach(track => {
+      track.addEventListener('ended', () => this.handleDeviceChange(), { once: true });
+    });
+  }
+
+  // Troca o microfone a meio da gravação: para um dispositivo acabado de ligar quando se usa o predefinido,
+  // de volta ao escolhido quando reaparece, ou para o predefinido quando o atual deixa de estar disponível
+  private async handleDeviceChange(): Promise<void> {
+    if (!this.isRecording || !this.micStream || this.isSwappingMicrophone) return;
+
+    try {
+      const microphones = await listMicrophones();
+      const ids = microphones.map(device => device.deviceId);
+      const track = this.micStream.getAudioTracks()[0];
+      const currentId = track?.getSettings().deviceId || '';
+      const currentLost = track?.readyState !== 'live' || (!!currentId && !isVirtualDevice(currentId) && !ids.includes(currentId));
+
+      const added = microphones.find(device => !this.knownMicrophoneIds.has(device.deviceId));
+      this.knownMicrophoneIds = new Set(ids);
+
+      const chosenId = this.audioSourceChoice.microphoneId;
+      let target: string | null = null;
+      if (chosenId && ids.includes(chosenId) && currentId !== chosenId) {
+        target = chosenId;
+      } else if (!chosenId && added) {
+        target = added.deviceId;
+      } else if (currentLost) {
+        target = '';
+      }
+      if (target === null) return;
+
+      const index = ids.indexOf(target);
+      await this.swapMicrophone(target, index >= 0 ? getMicrophoneLabel(microphones[index], index) : MESSAGES.DEFAULT_MICROPHONE);
+    } catch (error) {
+      console.error('Erro ao trocar de microfone:', error);
+    }
+  }
+
+  private async swapMicrophone(deviceId: string, label: string): Promise<void> {
+    if (!this.channelLayout.includes('me')) return;
+
+    this.isSwappingMicrophone = true;
+    try {
+      const stream = await this.openMicrophone(deviceId);
+      if (this.replaceSourceStream('me', stream)) {
+        console.log(`Microfone alterado para ${label}`);
+        this.setStatus(`${MESSAGES.MICROPHONE_SWITCHED}: ${label}`);
+      }
+    } finally {
+      this.isSwappingMicrophone = false;
+    }
+  }
+
+  // Liga uma nova faixa ao canal da origem no stream multicanal: os recorders continuam sem interrupção
+  private replaceSourceStream(source: AudioSource, stream: MediaStream): boolean {
+    const channel = this.channelLayout.indexOf(source);
+    if (!this.isRecording || !this.mixContext || !this.channelMerger || channel < 0) {
+      stream.getTracks().forEach(track => track.stop());
+      return false;
+    }
+
+    const input = this.mixContext.createMediaStreamSource(stream);
+    input.connect(this.channelMerger, 0, channel);
+    this.channelInputs[channel]?.disconnect();
+    this.channelInputs[channel] = input;
+    this.sourceMonitors[channel]?.replace(this.createChannelAnalyser(input), stream.getAudioTracks()[0]);
+    this.sourceErrors[channel] = null;
+
+    if (source === 'me') {
+      this.micStream?.getTracks().forEach(track => track.stop());
+      this.micStream = stream;
+      this.watchMicrophoneTrack();
+    } else {
+      this.screenStream?.getTracks().forEach(track => track.stop());
+      this.screenStream = stream;
+    }
+    return true;
+  }
+
+  // Volta a pedir uma origem perdida sem terminar a sessão (a partilha da aba exige o clique do utilizador)
+  private async reacquireSource(channel: number): Promise<void> {
+    const source = this.channelLayout[channel];
+    if (!source) return;
+
+    try {
+      let stream: MediaStream;
+      if (source === 'me') {
+        stream = await this.openMicrophone(this.audioSourceChoice.microphoneId);
+      } else {
+        stream = await navigator.mediaDevices.getDisplayMedia({ audio: TAB_AUDIO_CONSTRAINTS });
+        if (!stream.getAudioTracks().length) {
+          stream.getTracks().forEach(track => track.stop());
+          throw new Error(MESSAGES.NO_TAB_AUDIO);
+        }
+      }
+
+      if (this.replaceSourceStream(source, stream)) {
+        this.setStatus(`${MESSAGES.SOURCE_REACQUIRED}: ${SOURCE_LABELS[source]}`);
+      }
+    } catch (error) {
+      console.error('Erro ao reativar a origem de áudio:', error);
+      this.sourceErrors[channel] = `${MESSAGES.SOURCE_REACQUIRE_FAILED}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  private createChannelAnalyser(input: MediaStreamAudioSourceNode): AnalyserNode {
+    const analyser = input.context.createAnalyser();
+    analyser.fftSize = 1024;
+    input.connect(analyser);
+    return analyser;
+  }
+
+  private setupSourceMonitors(streams: MediaStream[]): void {
+    this.sourceMonitors = this.channelInputs.map((input, index) =>
+      new SourceMonitor(this.createChannelAnalyser(input), streams[index].getAudioTracks()[0]));
+    this.sourceStatuses = this.sourceMonitors.map(() => 'ok');
+    this.sourceErrors = this.sourceMonitors.map(() => null);
+    this.renderSourceMeters();
+  }
+
+  // Uma linha por origem: nível, estado e botão para reativar a origem quando se perde
+  private renderSourceMeters(): void {
+    if (!this.sourceMeters) return;
+
+    this.sourceMeters.replaceChildren(...this.channelLayout.map((source, channel) => {
+      const row = document.createElement('div');
+      row.className = 'source-meter';
+
+      const icon = document.createElement('i');
+      icon.className = `fas ${source === 'me' ? 'fa-microphone' : 'fa-display'}`;
+      const label = document.createElement('span');
+      label.className = 'source-meter-label';
+      label.textContent = SOURCE_LABELS[source];
+
+      const bar = document.createElement('div');
+      bar.className = 'source-meter-bar';
+      bar.appendChild(document.createElement('div')).className = 'source-meter-fill';
+
+      const status = document.createElement('span');
+      status.className = 'source-meter-status';
+
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'source-meter-action hidden';
+      button.textContent = 'Reativar';
+      button.addEventListener('click', () => this.reacquireSource(channel));
+
+      row.append(icon, label, bar, status, button);
+      return row;
+    }));
+  }
+
+  // Medição periódica de cada origem: atualiza os medidores, regista a fala por canal e avisa quando o estado muda
+  private checkSourceHealth(): void {
+    const now = Date.now();
+
+    this.sourceMonitors.forEach((monitor, channel) => {
+      const { level, status } = monitor.update(now);
+      const source = this.channelLayout[channel];
+
+      if (level.rms >= this.SILENCE_RMS_THRESHOLD) {
+        Object.values(this.recorderSegments).forEach(info => {
+          if (info) info.channelSpeech[channel] = true;
+        });
+      }
+
+      if (status !== this.sourceStatuses[channel]) {
+        this.sourceStatuses[channel] = status;
+        if (status !== 'ok') {
+          const message = `${SOURCE_LABELS[source]}: ${SOURCE_STATUS_MESSAGES[status]}`;
+          console.warn(message);
+          this.setStatus(message);
+        }
+      }
+
+      const row = this.sourceMeters?.children[channel] as HTMLElement | undefined;
+      if (!row) return;
+
+      row.dataset.status = status;
+      (row.querySelector('.source-meter-fill') as HTMLElement).style.width = `${levelToMeter(level.rms) * 100}%`;
+      row.querySelector('.source-meter-status')!.textContent = this.sourceErrors[channel] || SOURCE_STATUS_MESSAGES[status];
+      row.querySelector('.source-meter-action')!.classList.toggle('hidden', !['ended', 'muted', 'silent'].includes(status));
+    });
+  }
+
+  private async startDualRecording(): Promise<void> {
+    // Reset chunks
+    this.primaryAudioChunks = [];
+    this.secondaryAudioChunks = [];
+
+    // Configurar ambos os recorders
+    this.setupDualMediaRecorders();
+
+    // Iniciar gravação primary
+    this.activeRecorder = 'primary';
+    this.startSegment(this.primaryRecorder!, 'primary');
+
+    this.isRecording = true;
+    this.recordButton?.classList.add('recording');
+    this.recordButton?.setAttribute('title', 'Parar Gravação');
+    this.startLiveDisplay();
+  }
+
+  private async stopDualRecording(): Promise<void> {
+    if (this.primaryRecorder && this.primaryRecorder.state === 'recording') {
+      this.primaryRecorder.stop();
+    }
+    if (this.secondaryRecorder && this.secondaryRecorder.state === 'recording') {
+      this.secondaryRecorder.stop();
+    }
+
+    this.isRecording = false;
+    this.recordButton?.classList.remove('recording');
+    this.recordButton?.setAttribute('title', 'Iniciar Gravação');
+    this.stopLiveDisplay();
+  }
+
+  private setupDualMediaRecorders(): void {
+    const mimeType = this.getSupportedMimeType();
+
+    // Bitrate mais alto para manter os canais separados na compressão
+    const options: MediaRecorderOptions = { mimeType, audioBitsPerSecond: 128000 };
+
+    // Setup Primary Recorder
+    this.primaryRecorder = new MediaRecorder(this.stream!, options);
+    this.setupRecorderEvents(this.primaryRecorder, 'primary');
+
+    // Setup Secondary Recorder  
+    this.secondaryRecorder = new MediaRecorder(this.stream!, options);
+    this.setupRecorderEvents(this.secondaryRecorder, 'secondary');
+  }
+
+  private getSupportedMimeType(): string {
+    const types = [
+      'audio/webm;codecs=opus',
+      'audio/webm',
+      'audio/mp4',
+      'audio/ogg;codecs=opus'
+    ];
+
+    for (const type of types) {
+      if (MediaRecorder.isTypeSupported(type)) {
+        return type;
+      }
+    }
+    return '';
+  }
+
+  // Inicia um novo segmento numerado no recorder indicado
+  private startSegment(recorder: MediaRecorder, type: RecorderSlot): void {
+    this.segmentCount++;
+    this.segmentStartTime = Date.now();
+    this.currentNote!.recordingStartedAt ??= this.segmentStartTime;
+    this.recorderSegments[type] = {
+      noteId: this.currentNote!.id,
+      segmentNumber: this.segmentCount,
+      startTime: this.segmentStartTime,
+      hasSpeech: false,
+      channelSpeech: this.channelLayout.map(() => false),
+      pauseBeforeMs: this.pendingPauseMs || undefined,
+    };
+    this.pendingPauseMs = 0;
+    recorder.start(this.CHUNK_TIMESLICE_MS);
+  }
+
+  private buildStoredSegment(type: RecorderSlot, blob: Blob): StoredSegment | null {
+    const info = this.recorderSegments[type];
+    if (!info) return null;
+
+    return {
+      id: `${info.noteId}_${info.segmentNumber}`,
+      noteId: info.noteId,
+      blob,
+      startTime: info.startTime,
+      endTime: Date.now(),
+      segmentNumber: info.segmentNumber,
+      channels: [...this.channelLayout],
+      status: 'pending',
+      pauseBeforeMs: info.pauseBeforeMs,
+      silentChannels: this.getSilentChannels(info),
+    };
+  }
+
+  // Só faz sentido ignorar canais quando há medição por origem e pelo menos um canal teve fala
+  private getSilentChannels(info: RecorderSegmentInfo): AudioSource[] | undefined {
+    if (this.sourceMonitors.length === 0) return undefined;
+
+    const silent = this.channelLayout.filter((_, channel) => !info.channelSpeech[channel]);
+    return silent.length > 0 && silent.length < this.channelLayout.length ? silent : undefined;
+  }
+
+  private async persistSegment(segment: StoredSegment): Promise<void> {
+    try {
+      await this.noteStore.saveSegment(segment);
+    } catch (error) {
+      console.error(`Erro ao guardar o áudio do segmento ${segment.segmentNumber}:`, error);
+    }
+  }
+
+  private setupRecorderEvents(recorder: MediaRecorder, type: RecorderSlot): void {
+    recorder.ondataavailable = (event) => {
+      if (event.data?.size > 0) {
+        const chunks = type === 'primary' ? this.primaryAudioChunks : this.secondaryAudioChunks;
+        chunks.push(event.data);
+
+        // Guardar o áudio parcial enquanto o segmento ainda está a ser gravado
+        if (recorder.state === 'recording') {
+          const partial = this.buildStoredSegment(type, new Blob(chunks, { type: recorder.mimeType }));
+          if (partial) this.persistSegment(partial);
+        }
+      }
+    };
+
+    recorder.onstop = () => {
+      const chunks = type === 'primary' ? this.primaryAudioChunks : this.secondaryAudioChunks;
+
+      if (chunks.length > 0) {
+        const audioBlob = new Blob(chunks, { type: recorder.mimeType });
+        const segment = this.buildStoredSegment(type, audioBlob);
+        const hasSpeech = this.recorderSegments[type]?.hasSpeech ?? true;
+        this.recorderSegments[type] = null;
+
+        if (segment && !hasSpeech) {
+          // Só silêncio: o áudio fica guardado mas não é enviado para a API
+          segment.status = 'silent';
+          this.persistSegment(segment);
+          this.addPauseMarker(segment);
+          console.log(`Segmento ${segment.segmentNumber} sem fala; transcrição ignorada`);
+          this.setStatus(`${MESSAGES.SILENT_SEGMENT_SKIPPED} (Segmento ${segment.segmentNumber})`);
+        } else if (segment) {
+          this.persistSegment(segment);
+          this.processingQueue.push(segment);
+          this.processNextSegment();
+        }
+
+        // Limpar chunks após criar o blob
+        if (type === 'primary') {
+          this.primaryAudioChunks = [];
+        } else {
+          this.secondaryAudioChunks = [];
+        }
+      }
+    };
+  }
+
+  private setupSegmentTimer(): void {
+    if (this.segmentIntervalId) {
+      clearInterval(this.segmentIntervalId);
+    }
+
+    this.lastSoundTime = Date.now();
+    this.segmentIntervalId = window.setInterval(() => {
+      if (this.isContinuousMode && this.isRecording) {
+        this.checkSourceHealth();
+        if (!this.isPaused) this.checkSegmentBoundary();
+      }
+    }, this.VAD_CHECK_INTERVAL_MS);
+  }
+
+  // Nível RMS atual (0 a 1) a partir do AnalyserNode do visualizador
+  private measureAudioLevel(): number | null {
+    if (!this.analyserNode) return null;
+
+    if (!this.vadDataArray || this.vadDataArray.length !== this.analyserNode.fftSize) {
+      this.vadDataArray = new Uint8Array(this.analyserNode.fftSize);
+    }
+    this.analyserNode.getByteTimeDomainData(this.vadDataArray);
+
+    let sum = 0;
+    for (let i = 0; i < this.vadDataArray.length; i++) {
+      const sample = (this.vadDataArray[i] - 128) / 128;
+      sum += sample * sample;
+    }
+    return Math.sqrt(sum / this.vadDataArray.length);
+  }
+
+  // Corta o segmento numa pausa da fala perto da duração alvo, dentro dos limites mínimo e máximo
+  private checkSegmentBoundary(): void {
+    const now = Date.now();
+    const elapsed = now - this.segmentStartTime;
+    const level = this.measureAudioLevel();
+    const timing = getSegmentationTiming(this.settings);
+
+    // Sem analisador não é possível detetar pausas: corte apenas por tempo
+    if (level === null) {
+      this.markSpeechInActiveSegments();
+      if (elapsed >= timing.targetMs) {
+        this.switchRecorders();
+      }
+      return;
+    }
+
+    if (level >= this.SILENCE_RMS_THRESHOLD) {
+      this.lastSoundTime = now;
+      this.markSpeechInActiveSegments();
+    }
+
+    const silenceMs = now - this.lastSoundTime;
+    const requiredPause = elapsed >= timing.targetMs ? this.PAUSE_DURATION_MS : this.LONG_PAUSE_DURATION_MS;
+
+    if (elapsed >= timing.maxMs ||
+      (elapsed >= timing.minMs && silenceMs >= requiredPause)) {
+      this.switchRecorders();
+    }
+  }
+
+  private markSpeechInActiveSegments(): void {
+    Object.values(this.recorderSegments).forEach(info => {
+      if (info) info.hasSpeech = true;
+    });
+  }
+
+  private switchRecorders(): void {
+    if (!this.isContinuousMode || !this.isRecording || this.isPaused) return;
+
+    try {
+      const currentRecorder = this.activeRecorder === 'primary' ? this.primaryRecorder : this.secondaryRecorder;
+      const nextRecorder = this.activeRecorder === 'primary' ? this.secondaryRecorder : this.primaryRecorder;
+
+      if (!currentRecorder || !nextRecorder) return;
+
+      const currentSlot = this.activeRecorder;
+      const currentSegment = this.recorderSegments[currentSlot]?.segmentNumber;
+
+      // Iniciar o próximo recorder antes de parar o atual, para que os segmentos se sobreponham
+      this.activeRecorder = this.activeRecorder === 'primary' ? 'secondary' : 'primary';
+      this.startSegment(nextRecorder, this.activeRecorder);
+
+      // Parar o recorder anterior após a sobreposição (isso vai triggerar o onstop e processar o segmento),
+      // exceto se entretanto a gravação foi pausada e retomada e o recorder já grava outro segmento
+      window.setTimeout(() => {
+        if (currentRecorder.state === 'recording' && this.recorderSegments[currentSlot]?.segmentNumber === currentSegment) {
+          currentRecorder.stop();
+        }
+      }, getSegmentationTiming(this.settings).overlapMs);
+
+      console.log(`Switched to ${this.activeRecorder} recorder for segment ${this.segmentCount}`);
+
+    } catch (error) {
+      console.error('Erro ao alternar recorders:', error);
+    }
+  }
+
+  private async processNextSegment(): Promise<void> {
+    if (this.isProcessingSegment || this.processingQueue.length === 0) {
+      return;
+    }
+
+    this.isProcessingSegment = true;
+    const segment = this.processingQueue.shift()!;
+
+    try {
+      // O áudio fica guardado para recuperação caso a nota ativa tenha mudado
+      if (segment.noteId !== this.currentNote?.id) {
+        console.warn(`Segmento ${segment.segmentNumber} pertence a outra nota; ignorado`);
+        return;
+      }
+
+      this.setStatus(`${MESSAGES.PROCESSING_SEGMENT} (${this.getSegmentLabel(segment.segmentNumber)})`);
+      await this.processAudioSegment(segment);
+    } catch (error) {
+      console.error(`Erro ao processar segmento ${segment.segmentNumber}:`, error);
+      segment.status = 'failed';
+      segment.error = error instanceof Error ? error.message : String(error);
+      await this.persistSegment(segment);
+      this.addFailedSegment(segment);
+      this.setStatus(`${MESSAGES.SEGMENT_FAILED} ${segment.segmentNumber}`);
+    } finally {
+      this.isProcessingSegment = false;
+
+      // Processar próximo segmento se houver
+      if (this.processingQueue.length > 0) {
+        setTimeout(() => this.processNextSegment(), 100);
+      } else if (this.isContinuousMode) {
+        this.setStatus(this.isPaused ? MESSAGES.RECORDING_PAUSED : MESSAGES.RECORDING_CONTINUOUS);
+      } else {
+        this.maybeConsolidatePolishedNote();
+      }
+    }
+  }
+
+  // Para os recorders ativos (incluindo um eventual segmento ainda em sobreposição)
+  private async stopActiveRecorders(): Promise<void> {
+    const activeRecorders = [this.primaryRecorder, this.secondaryRecorder]
+      .filter((recorder): recorder is MediaRecorder => recorder?.state === 'recording');
+
+    await Promise.all(activeRecorders.map(recorder => {
+      const stopped = new Promise(resolve => recorder.addEventListener('stop', resolve, { once: true }));
+      recorder.stop();
+      return stopped;
+    }));
+  }
+
+  private async finalizeContinuousRecording(): Promise<void> {
+    await this.stopActiveRecorders();
+
+    // Aguardar processamento de todos os segmentos
+    let attempts = 0;
+    while ((this.processingQueue.length > 0 || this.isProcessingSegment) && attempts < 50) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      attempts++;
+    }
+  }
+
+  private async processAudioSegment(segment: StoredSegment): Promise<void> {
+    if (segment.blob.size === 0) {
+      console.warn(`Segmento ${segment.segmentNumber} vazio`);
+      return;
+    }
+
+    try {
+      const tracks = await this.prepareSegmentUploads(segment);
+      const previousUtterances = await this.getOverlappingUtterances(segment);
+      const glossary = this.getGlossary();
+      const utterances: TranscriptUtterance[] = [];
+
+      segment.uploadFormat = describeAudioFormat(tracks[0].audio.type);
+      segment.uploadBytes = tracks.reduce((total, track) => total + track.audio.size, 0);
+      console.log(`Segmento ${segment.segmentNumber}: envio em ${segment.uploadFormat} ` +
+        `(${this.formatBytes(segment.uploadBytes)}, original ${this.formatBytes(segment.blob.size)})`);
+      this.setStatus(`${MESSAGES.PROCESSING_SEGMENT} (${this.getSegmentLabel(segment.segmentNumber)}, ${segment.uploadFormat})`);
+
+      // Cada canal é transcrito separadamente e etiquetado com a sua origem;
+      // só o áudio da reunião (ou uma origem única) é dividido por oradores
+      for (const track of tracks) {
+        if (track.source && segment.silentChannels?.includes(track.source)) {
+          console.log(`Segmento ${segment.segmentNumber}: ${SOURCE_LABELS[track.source]} sem fala; canal não transcrito`);
+          continue;
+        }
+
+        const diarize = track.source !== 'me';
+        const previousTurns = diarize ? await this.getPreviousSpeakerTurns(segment, track.source) : '';
+        let result = await this.getSegmentTranscription(
+          track.audio, segment.segmentNumber, (segment.endTime - segment.startTime) / 1000, diarize, previousTurns);
+
+        // Remover o texto repetido da zona de sobreposição com o segmento anterior
+        if (previousUtterances.length > 0) {
+          const previousText = previousUtterances
+            .filter(utterance => utterance.source === track.source)
+            .map(utterance => utterance.text)
+            .join(' ');
+          result = trimLeadingOverlap(previousText, result);
+        }
+
+        // Corrigir as grafias erradas conhecidas do glossário
+        utterances.push(...result.map(utterance => ({
+          ...utterance,
+          text: applyGlossary(utterance.text, glossary).text,
+          source: track.source,
+        })));
+      }
+
+      // Intercalar as intervenções das duas origens por ordem temporal
+      utterances.sort((a, b) => a.start - b.start);
+      const offset = this.getSegmentOffset(segment);
+      const transcription = [
+        segment.pauseBeforeMs ? this.formatPauseMarker(segment.pauseBeforeMs, offset) : '',
+        this.formatUtterances(utterances, offset),
+      ].filter(Boolean).join('\n');
+
+      if (transcription) {
+        await this.addSegmentTranscription(segment.segmentNumber, transcription);
+        segment.status = 'transcribed';
+        segment.transcription = transcription;
+        segment.utterances = utterances;
+        await this.persistSegment(segment);
+      } else {
+        console.warn(`Transcrição vazia para segmento ${segment.segmentNumber}`);
+      }
+    } catch (error) {
+      console.error(`Erro ao processar segmento ${segment.segmentNumber}:`, error);
+      throw error;
+    }
+  }
+
+  // Intervenções do segmento anterior quando este se sobrepõe no tempo ao atual
+  private async getOverlappingUtterances(segment: StoredSegment): Promise<TranscriptUtterance[]> {
+    const previous = await this.noteStore.getSegment(`${segment.noteId}_${segment.segmentNumber - 1}`);
+
+    if (!previous || previous.status !== 'transcribed' || previous.endTime <= segment.startTime) {
+      return [];
+    }
+    return previous.utterances || [];
+  }
+
+  // Últimas intervenções etiquetadas do segmento anterior, para manter a numeração dos oradores
+  private async getPreviousSpeakerTurns(segment: StoredSegment, source?: AudioSource): Promise<string> {
+    const previous = await this.noteStore.getSegment(`${segment.noteId}_${segment.segmentNumber - 1}`);
+
+    return (previous?.utterances || [])
+      .filter(utterance => utterance.speaker && utterance.source === source)
+      .slice(-this.SPEAKER_CONTEXT_TURNS)
+      .map(utterance => `[${utterance.speaker}] ${utterance.text}`)
+      .join('\n');
+  }
+
+  private async prepareSegmentUploads(segment: StoredSegment): Promise<{ source?: AudioSource; audio: Blob }[]> {
+    const channels = segment.channels || [];
+    const source = channels.length === 1 ? channels[0] : undefined;
+    const provider = this.getProvider();
+    const compressed = this.settings.uploadFormat === 'compressed';
+
+    // O áudio original só serve se estiver mesmo comprimido (os ficheiros importados são guardados em WAV)
+    // e quando não é preciso separar canais
+    const originalIsCompressed = !segment.blob.type.startsWith('audio/wav');
+    if (compressed && originalIsCompressed && channels.length <= 1 && provider.acceptsAudioType(segment.blob.type)) {
+      return [{ source, audio: segment.blob }];
+    }
+
+    // Caso contrário, FLAC (sem perdas, mais pequeno do que WAV) se o fornecedor o aceitar
+    const encode = compressed && provider.acceptsAudioType('audio/flac') ? encodeSpeechFlac : encodeSpeechWav;
+    const audioBuffer = await decodeAudio(segment.blob);
+    if (channels.length > 1 && audioBuffer.numberOfChannels >= channels.length) {
+      return Promise.all(channels.map(async (channelSource, index) => ({
+        source: channelSource,
+        audio: await encode(audioBuffer, index),
+      })));
+    }
+
+    // Gravações com uma única origem (ou sem informação de canais) são misturadas num só canal
+    return [{ source, audio: await encode(audioBuffer) }];
+  }
+
+  // Duração alvo dos segmentos configurada nas definições, ex.: "2 min" ou "90 s"
+  private formatSegmentDuration(): string {
+    const seconds = this.settings.segmentDurationSeconds;
+    return seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} s`;
+  }
+
+  private formatBytes(bytes: number): string {
+    return bytes >= 1024 * 1024
+      ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+      : `${Math.round(bytes / 1024)} KB`;
+  }
+
+  // Cada intervenção fica com o instante relativo ao início da nota, ex.: "[12:34] [EU] texto" ou "[12:40] [Ana] texto"
+  private formatUtterances(utterances: TranscriptUtterance[], offsetSeconds: number): string {
+    return utterances
+      .map(utterance => {
+        const tag = utterance.speaker && utterance.source !== 'me'
+          ? `[${getSpeakerName(this.currentNote, utterance.speaker)}]`
+          : utterance.source ? SPEAKER_TAGS[utterance.source] : '';
+        const speaker = tag ? `${tag} ` : '';
+        return `[${formatTimestamp(offsetSeconds + utterance.start)}] ${speaker}${utterance.text}`;
+      })
+      .join('\n');
+  }
+
+  // Linha "[12:34] [PAUSA] Gravação em pausa durante 05:00", no instante em que a pausa começou
+  // Segmentos sem fala não são transcritos, mas a pausa que os antecede fica na transcrição
+  private addPauseMarker(segment: StoredSegment): void {
+    if (!segment.pauseBeforeMs) return;
+
+    this.insertSegmentTranscription(segment.segmentNumber,
+      this.formatPauseMarker(segment.pauseBeforeMs, this.getSegmentOffset(segment)));
+    this.updateTranscriptionDisplay(this.accumulatedTranscription);
+    if (this.currentNote) {
+      this.currentNote.rawTranscription = this.accumulatedTranscription;
+    }
+  }
+
+  private formatPauseMarker(pauseMs: number, offsetSeconds: number): string {
+    const pauseSeconds = pauseMs / 1000;
+    return `[${formatTimestamp(Math.max(0, offsetSeconds - pauseSeconds))}] [PAUSA] ${MESSAGES.PAUSE_MARKER} ${formatTimestamp(pauseSeconds)}`;
+  }
+
+  // Início do segmento, em segundos, relativo ao começo da gravação da nota
+  private getSegmentOffset(segment: AudioSegment, origin = this.currentNote?.recordingStartedAt): number {
+    return Math.max(0, (segment.startTime - (origin ?? segment.startTime)) / 1000);
+  }
+
+  private async loadNotePlayer(): Promise<void> {
+    if (!this.notePlayer || !this.currentNote) return;
+
+    try {
+      const segments = (await this.noteStore.getSegments(this.currentNote.id))
+        .filter(segment => segment.blob.size > 0);
+      const origin = this.currentNote.recordingStartedAt ?? segments[0]?.startTime;
+
+      this.notePlayer.load(segments.map(segment => ({
+        offset: this.getSegmentOffset(segment, origin),
+        duration: (segment.endTime - segment.startTime) / 1000,
+        blob: segment.blob,
+      })));
+    } catch (error) {
+      console.error('Erro ao carregar o áudio da nota:', error);
+    }
+  }
+
+  // Clicar numa linha da transcrição ou num ponto do resumo posiciona a reprodução nesse instante
+  private handleTimestampClick(event: MouseEvent): void {
+    if (!this.notePlayer?.hasAudio || this.isRecording) return;
+
+    const target = event.target as HTMLElement;
+    if (target instanceof HTMLInputElement) return;
+
+    const mark = target.closest<HTMLElement>('.timestamp-link') ||
+      target.closest('li, .transcript-line')?.querySelector<HTMLElement>('.timestamp-link');
+
+    if (mark?.dataset.time) {
+      this.notePlayer.seek(Number(mark.dataset.time));
+    }
+  }
+
+  private setupAudioVisualizer(): void {
+    if (!this.stream || this.audioContext) return;
+
+    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const source = this.audioContext.createMediaStreamSource(this.stream);
+    this.analyserNode = this.audioContext.createAnalyser();
+
+    this.analyserNode.fftSize = 256;
+    this.analyserNode.smoothingTimeConstant = 0.75;
+
+    const bufferLength = this.analyserNode.frequencyBinCount;
+    this.waveformDataArray = new Uint8Array(bufferLength);
+
+
+    source.connect(this.analyserNode);
+  }
+
+  private drawLiveWaveform(): void {
+    const canDrawWaveform = this.analyserNode && this.waveformDataArray &&
+      this.liveWaveformCtx && this.liveWaveformCanvas && this.isRecording;
+
+    if (!canDrawWaveform) {
+      this.cleanupAnimations();
+      return;
+    }
+
+    this.waveformDrawingId = requestAnimationFrame(() => this.drawLiveWaveform());
+    this.analyserNode!.getByteFrequencyData(this.waveformDataArray!);
+
+    const ctx = this.liveWaveformCtx!;
+    const canvas = this.liveWaveformCanvas!;
+    const logicalWidth = canvas.clientWidth;
+    const logicalHeight = canvas.clientHeight;
+
+    ctx.clearRect(0, 0, logicalWidth, logicalHeight);
+
+    const bufferLength = this.analyserNode!.frequencyBinCount;
+    const numBars = Math.floor(bufferLength * 0.5);
+
+    if (numBars === 0) return;
+
+    const totalBarPlusSpacingWidth = logicalWidth / numBars;
+    const barWidth = Math.max(1, Math.floor(totalBarPlusSpacingWidth * 0.7));
+    const barSpacing = Math.max(0, Math.floor(totalBarPlusSpacingWidth * 0.3));
+
+    const recordingColor = getComputedStyle(document.documentElement)
+      .getPropertyValue('--color-recording').trim() || '#ff3b30';
+
+    ctx.fillStyle = recordingColor;
+
+    let x = 0;
+    for (let i = 0; i < numBars && x < logicalWidth; i++) {
+      const dataIndex = Math.floor(i * (bufferLength / numBars));
+      const barHeightNormalized = this.waveformDataArray![dataIndex] / 255.0;
+      let barHeight = Math.max(1, Math.round(barHeightNormalized * logicalHeight));
+
+      const y = Math.round((logicalHeight - barHeight) / 2);
+      ctx.fillRect(Math.floor(x), y, barWidth, barHeight);
+      x += barWidth + barSpacing;
+    }
+  }
+
+  private updateLiveTimer(): void {
+    if (!this.isRecording || !this.liveRecordingTimerDisplay) return;
+
+    // O tempo em pausa não conta para a duração da gravação
+    const pausedMs = this.pausedTotalMs + (this.isPaused ? Date.now() - this.pausedAt : 0);
+    const elapsedMs = Date.now() - this.recordingStartTime - pausedMs;
+    const totalSeconds = Math.floor(elapsedMs / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    const hundredths = Math.floor((elapsedMs % 1000) / 10);
+
+    let timerText = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+
+    if (this.isPaused) {
+      timerText += ` | ${MESSAGES.RECORDING_PAUSED}`;
+    } else if (this.isContinuousMode) {
+      const segmentElapsed = Date.now() - this.segmentStartTime;
+      const segmentSeconds = Math.floor(segmentElapsed / 1000);
+      const segmentMinutes = Math.floor(segmentSeconds / 60);
+      const segmentRemainingSeconds = segmentSeconds % 60;
+      timerText += ` | Seg: ${String(segmentMinutes).padStart(2, '0')}:${String(segmentRemainingSeconds).padStart(2, '0')}`;
+
+      if (this.processingQueue.length > 0 || this.isProcessingSegment) {
+        timerText += ` | Processando: ${this.segmentCount} Seg`;
+      }
+    }
+
+    this.liveRecordingTimerDisplay.textContent = timerText;
+  }
+
+  private startLiveDisplay(): void {
+    const elements = [this.recordingInterface, this.liveRecordingTitle,
+    this.liveWaveformCanvas, this.liveRecordingTimerDisplay];
+
+    if (elements.some(el => !el)) {
+      console.warn('Elementos de exibição ao vivo em falta.');
+      return;
+    }
+
+    this.recordingInterface!.classList.add('is-live');
+    [this.liveRecordingTitle, this.liveWaveformCanvas, this.liveRecordingTimerDisplay]
+      .forEach(el => el!.style.display = 'block');
+
+    this.setupCanvasDimensions();
+
+    if (this.statusIndicatorDiv) {
+      this.statusIndicatorDiv.style.display = 'none';
+    }
+
+    const iconElement = this.recordButton?.querySelector('.record-button-inner i') as HTMLElement;
+    if (iconElement) {
+      iconElement.classList.replace('fa-microphone', 'fa-stop');
+    }
+
+    const currentTitle = this.editorTitle?.textContent?.trim();
+    const placeholder = this.editorTitle?.getAttribute('placeholder') || 'Untitled Note';
+    let displayTitle = (currentTitle && currentTitle !== placeholder) ? currentTitle : 'Nova Gravação';
+
+    if (this.isContinuousMode) {
+      displayTitle += ' (Gravação Contínua - SEM Interrupções)';
+    }
+
+    this.liveRecordingTitle!.textContent = displayTitle;
+
+    this.setupAudioVisualizer();
+    this.drawLiveWaveform();
+
+    this.recordingStartTime = Date.now();
+    this.pausedTotalMs = 0;
+    this.pendingPauseMs = 0;
+    this.updateLiveTimer();
+    this.timerIntervalId = window.setInterval(() => this.updateLiveTimer(), 50);
+  }
+
+  private stopLiveDisplay(): void {
+    if (this.recordingInterface) {
+      this.recordingInterface.classList.remove('is-live');
+    }
+
+    [this.liveRecordingTitle, this.liveWaveformCanvas, this.liveRecordingTimerDisplay]
+      .forEach(el => {
+        if (el) el.style.display = 'none';
+      });
+
+    if (this.statusIndicatorDiv) {
+      this.statusIndicatorDiv.style.display = 'block';
+    }
+
+    const iconElement = this.recordButton?.querySelector('.record-button-inner i') as HTMLElement;
+    if (iconElement) {
+      iconElement.classList.replace('fa-stop', 'fa-microphone');
+    }
+
+    this.cleanupAnimations();
+
+    if (this.liveWaveformCtx && this.liveWaveformCanvas) {
+      this.liveWaveformCtx.clearRect(0, 0, this.liveWaveformCanvas.width, this.liveWaveformCanvas.height);
+    }
+
+    this.cleanupAudioContext();
+  }
+
+  private async captureAudioStreams(choice: AudioSourceChoice): Promise<{ screen: MediaStream | null, mic: MediaStream | null }> {
+    let screenStream: MediaStream | null = null;
+    let micStream: MediaStream | null = null;
+
+    if (usesTabAudio(choice.mode) && navigator.mediaDevices.getDisplayMedia) {
+      try {
+        screenStream = await navigator.mediaDevices.getDisplayMedia({ audio: TAB_AUDIO_CONSTRAINTS });
+      } catch (e) {
+        console.warn('Falha ao capturar áudio da aba:', e);
+      }
+    }
+
+    // Sem microfone, a aba tem de partilhar áudio
+    if (!usesMicrophone(choice.mode)) {
+      if (!screenStream?.getAudioTracks().length) {
+        screenStream?.getTracks().forEach(track => track.stop());
+        throw new Error(MESSAGES.NO_TAB_AUDIO);
+      }
+      return { screen: screenStream, mic: null };
+    }
+
+    try {
+      micStream = await this.openMicrophone(choice.microphoneId);
+    } catch (e) {
+      console.error('Falha ao capturar microfone:', e);
+      screenStream?.getTracks().forEach(track => track.stop());
+      throw e;
+    }
+
+    return { screen: screenStream, mic: micStream };
+  }
+
+  // Um microfone escolhido que deixou de estar ligado é substituído pelo predefinido
+  private async openMicrophone(deviceId: string): Promise<MediaStream> {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: getMicrophoneConstraints(deviceId) });
+    } catch (e) {
+      const name = e instanceof Error ? e.name : '';
+      if (!deviceId || !['OverconstrainedError', 'NotFoundError'].includes(name)) throw e;
+
+      console.warn('Microfone escolhido indisponível; a usar o predefinido:', e);
+      return navigator.mediaDevices.getUserMedia({ audio: getMicrophoneConstraints('') });
+    }
+  }
+
+  // Junta as origens num único stream com um canal por origem (sem mistura)
+  private createMultichannelStream(streams: MediaStream[]): MediaStream {
+    if (streams.length === 0) {
+      throw new Error('Nenhum fluxo de áudio disponível');
+    }
+
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    window.audioContext = audioContext;
+
+    const merger = audioContext.createChannelMerger(streams.length);
+    const dest = audioContext.createMediaStreamDestination();
+    dest.channelCount = streams.length;
+    dest.channelCountMode = 'explicit';
+    dest.channelInterpretation = 'discrete';
+
+    this.channelInputs = streams.map((stream, index) => {
+      const input = audioContext.createMediaStreamSource(stream);
+      input.connect(merger, 0, index);
+      return input;
+    });
+    merger.connect(dest);
+
+    this.mixContext = audioContext;
+    this.channelMerger = merger;
+    return dest.stream;
+  }
+
+  private handleRecordingError(error: unknown): void {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorName = error instanceof Error ? error.name : 'Unknown';
+
+    let statusMessage = `Erro: ${errorMessage}`;
+
+    if (['NotAllowedError', 'PermissionDeniedError'].includes(errorName)) {
+      statusMessage = MESSAGES.PERMISSION_DENIED;
+    } else if (errorName === 'NotFoundError' ||
+      (errorName === 'DOMException' && errorMessage.includes('Requested device not found'))) {
+      statusMessage = MESSAGES.NO_AUDIO_DEVICE;
+    } else if (['NotReadableError', 'AbortError'].includes(errorName) ||
+      (errorName === 'DOMException' && errorMessage.includes('Failed to allocate audiosource'))) {
+      statusMessage = MESSAGES.AUDIO_IN_USE;
+    }
+
+    this.setStatus(statusMessage);
+    this.isRecording = false;
+    this.isContinuousMode = false;
+    this.isPaused = false;
+    this.updatePauseControls();
+    this.cleanupStreams();
+    this.recordButton?.classList.remove('recording');
+    this.recordButton?.setAttribute('title', 'Iniciar Gravação');
+    this.stopLiveDisplay();
+  }
+
+  private async getSegmentTranscription(
+    audio: Blob,
+    segmentNumber: number,
+    audioSeconds: number,
+    diarize: boolean = true,
+    previousTurns: string = ''
+  ): Promise<TranscriptUtterance[]> {
+    try {
+      const provider = this.getProvider();
+      const noteId = this.currentNote?.id;
+      const language = (this.currentNote?.spokenLanguage || 'auto') as SpokenLanguage;
+      const glossary = this.getGlossary();
+      const instructions = [
+        getTranscriptionInstructions(language),
+        getGlossaryInstructions(glossary),
+        diarize ? getDiarizationInstructions(previousTurns) : '',
+      ].filter(Boolean).join('\n');
+
+      return await withRetry(
+        () => provider.transcribe({
+          audio,
+          instructions,
+          language: language === 'auto' ? undefined : language,
+          vocabulary: glossary.map(entry => entry.term),
+          onUsage: (usage) => this.recordUsage(noteId, 'transcription', provider.id,
+            { ...usage, audioSeconds: usage.audioSeconds ?? audioSeconds }, segmentNumber),
+        }),
+        {
+          maxRetries: this.MAX_TRANSCRIPTION_RETRIES,
+          baseDelayMs: this.RETRY_BASE_DELAY_MS,
+          onRetry: (attempt, delayMs, error) => {
+            console.warn(`Tentativa ${attempt} para o segmento ${segmentNumber} após erro:`, error);
+            this.setStatus(`${MESSAGES.SEGMENT_RETRY_SCHEDULED} ${segmentNumber}. Nova tentativa em ${Math.round(delayMs / 1000)}s...`);
+          },
+        }
+      );
+    } catch (error) {
+      console.error(`Erro na transcrição do segmento ${segmentNumber}:`, error);
+      throw error;
+    }
+  }
+
+  private async addSegmentTranscription(segmentNumber: number, transcription: string): Promise<void> {
+    this.insertSegmentTranscription(segmentNumber, transcription);
+    this.updateTranscriptionDisplay(this.accumulatedTranscription);
+
+    if (this.currentNote) {
+      this.currentNote.rawTranscription = this.accumulatedTranscription;
+    }
+
+    this.pendingSummarySegments.push({ segmentNumber, text: transcription });
+    // O resumo não bloqueia a transcrição: se chegar outro segmento antes de terminar, entra no pedido seguinte
+    void this.updateRollingSummary();
+  }
+
+  // Insere o texto do segmento antes do primeiro segmento com número superior
+  private insertSegmentTranscription(segmentNumber: number, text: string): void {
+    const block = `\n\n=== SEGMENTO ${segmentNumber} ===\n${text}`;
+    const headerRegex = /\n*=== SEGMENTO (\d+) ===\n/g;
+
+    let insertAt = this.accumulatedTranscription.length;
+    for (const match of this.accumulatedTranscription.matchAll(headerRegex)) {
+      if (Number(match[1]) > segmentNumber) {
+        insertAt = match.index!;
+        break;
+      }
+    }
 
-    const bufferLength = this.analyserNode!.frequencyBinCount;
-    const numBars = Math.floor(bufferLength * 0.5);
+    this.accumulatedTranscription = this.accumulatedTranscription.slice(0, insertAt) +
+      block + this.accumulatedTranscription.slice(insertAt);
+  }
 
-    if (numBars === 0) return;
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
 
-    const totalBarPlusSpacingWidth = logicalWidth / numBars;
-    const barWidth = Math.max(1, Math.floor(totalBarPlusSpacingWidth * 0.7));
-    const barSpacing = Math.max(0, Math.floor(totalBarPlusSpacingWidth * 0.3));
+  private updateTranscriptionDisplay(text: string): void {
+    if (!this.rawTranscription) return;
 
-    const recordingColor = getComputedStyle(document.documentElement)
-      .getPropertyValue('--color-recording').trim() || '#ff3b30';
+    // Uma linha por elemento, para que cada intervenção possa ser clicada
+    const htmlText = text.split('\n')
+      .map(line => `<div class="transcript-line">${linkTimestamps(this.escapeHtml(line)) || '<br>'}</div>`)
+      .join('');
+    this.rawTranscription.innerHTML = text ? htmlText : '';
+    this.setPlaceholder(this.rawTranscription, !text.trim());
 
-    ctx.fillStyle = recordingColor;
+    // Scroll to bottom para mostrar novo conteúdo
+    this.rawTranscription.scrollTop = this.rawTranscription.scrollHeight;
+  }
 
-    let x = 0;
-    for (let i = 0; i < numBars && x < logicalWidth; i++) {
-      const dataIndex = Math.floor(i * (bufferLength / numBars));
-      const barHeightNormalized = this.waveformDataArray![dataIndex] / 255.0;
-      let barHeight = Math.max(1, Math.round(barHeightNormalized * logicalHeight));
+  // Formato do modelo de resumo escolhido para a nota, com as variáveis preenchidas
+  private renderNoteTemplate(): string {
+    const note = this.currentNote;
+    const title = this.hasValidContent(this.editorTitle) ? this.editorTitle.textContent!.trim() : '';
+
+    return renderTemplate(getTemplate(note?.templateId).format, {
+      data: new Date(note?.recordingStartedAt ?? note?.timestamp ?? Date.now())
+        .toLocaleDateString(getLanguage(note?.outputLanguage).locale),
+      titulo: title || '(escolhe um título curto adequado ao conteúdo)',
+      participantes: note?.participants?.trim() ||
+        '(lista apenas se forem mencionados, caso contrário deixa em branco)',
+    });
+  }
 
-      const y = Math.round((logicalHeight - barHeight) / 2);
-      ctx.fillRect(Math.floor(x), y, barWidth, barHeight);
-      x += barWidth + barSpacing;
+  // Regras e formato comuns a todos os pedidos de resumo
+  private getNoteFormatInstructions(): string {
+    const glossaryInstructions = getGlossaryInstructions(this.getGlossary());
+    const glossaryRule = glossaryInstructions ? `11. ${glossaryInstructions}` : '';
+
+    return `
+          REGRAS IMPORTANTES:
+          1. Remove palavras de preenchimento (hum, ah, tipo), repetições, falsos começos e erros.
+          2. Mantém o sentido e a informação integral da conversa.
+          3. Usa **formatação Markdown**, mas SEM títulos inventados fora do contexto.
+          4. NÃO inventes nomes, datas ou contextos que não existam.
+          5. Mantém a sequência lógica dos temas.
+          6. Mantém o mesmo formato em todas as saídas, mesmo que a transcrição venha em partes diferentes.
+          7. Se um nome for mencionado, mantém-no tal como está no texto (não adivinha nomes ausentes).
+          8. As intervenções etiquetadas com ${SPEAKER_TAGS.me} foram ditas pelo utilizador (microfone) e as etiquetadas com ${SPEAKER_TAGS.meeting} pelos restantes participantes (áudio da reunião). As etiquetas [${SPEAKER_LABEL_PREFIX} N] ou com o nome de uma pessoa (ex.: [Ana]) distinguem os diferentes participantes; atribui as falas e ações a essas pessoas.
+          9. Cada linha da transcrição começa com o instante em que foi dita, no formato [mm:ss]. Termina cada ponto da lista com o instante da primeira intervenção em que se baseia, no mesmo formato (ex.: "- Orçamento aprovado [12:34]").
+          10. Escreve toda a nota em ${getLanguage(this.currentNote?.outputLanguage).promptName}, incluindo os títulos e secções do formato abaixo, mesmo que a transcrição esteja noutra língua ou misture várias línguas. As citações literais podem manter a língua original.
+          ${glossaryRule}
+
+          FORMATO OBRIGATÓRIO DA SAÍDA:
+
+${this.renderNoteTemplate()}
+          `;
+  }
+
+  // Um resumo contínuo de cada vez: cancelar o pedido em curso não evita a cobrança no Gemini,
+  // por isso os segmentos novos juntam-se num único pedido quando o atual termina
+  private updateRollingSummary(): Promise<void> {
+    if (!this.rollingSummaryRun) {
+      this.rollingSummaryRun = this.runRollingSummaries().finally(() => {
+        this.rollingSummaryRun = null;
+      });
     }
+    return this.rollingSummaryRun;
   }
 
-  private updateLiveTimer(): void {
-    if (!this.isRecording || !this.liveRecordingTimerDisplay) return;
+  private async runRollingSummaries(): Promise<void> {
+    while (this.pendingSummarySegments.length > 0) {
+      // Em caso de falha, os segmentos ficam pendentes até ao próximo segmento ou à consolidação
+      if (!await this.summarizePendingSegments()) return;
+    }
+  }
 
-    const elapsedMs = Date.now() - this.recordingStartTime;
-    const totalSeconds = Math.floor(elapsedMs / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    const hundredths = Math.floor((elapsedMs % 1000) / 10);
+  // Atualiza o resumo contínuo apenas com os segmentos ainda não resumidos
+  private async summarizePendingSegments(): Promise<boolean> {
+    if (this.isSummaryPausedByBudget()) {
+      this.setStatus(MESSAGES.BUDGET_SUMMARY_PAUSED);
+      return false;
+    }
 
-    let timerText = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+    const pending = [...this.pendingSummarySegments].sort((a, b) => a.segmentNumber - b.segmentNumber);
+    const newContent = pending
+      .map(({ segmentNumber, text }) => `=== SEGMENTO ${segmentNumber} ===\n${text}`)
+      .join('\n\n');
+
+    const prompt = this.accumulatedPolishedNote.trim()
+      ? `
+          Estás a manter um resumo estruturado e contínuo de uma reunião que ainda está a decorrer.
+          Recebes o RESUMO ATUAL e um NOVO EXCERTO da transcrição. Atualiza o resumo integrando a nova informação:
+          - Mantém toda a informação já presente no resumo, exceto se o novo excerto a corrigir.
+          - Acrescenta os novos tópicos, pontos, decisões e ações nas secções correspondentes.
+          - Não repitas pontos que já existem no resumo.
+          - Devolve o resumo completo e atualizado.
+          ${this.getNoteFormatInstructions()}
+          RESUMO ATUAL:
+          ${this.accumulatedPolishedNote}
+
+          NOVO EXCERTO DA TRANSCRIÇÃO:
+          ${newContent}
+          `
+      : `
+          Tens de transformar esta transcrição bruta de uma reunião contínua num resumo estruturado, limpo e consistente.
+          ${this.getNoteFormatInstructions()}
+          Transcrição bruta:
+          ${newContent}
+          `;
 
-    if (this.isContinuousMode) {
-      const segmentElapsed = Date.now() - this.segmentStartTime;
-      const segmentSeconds = Math.floor(segmentElapsed / 1000);
-      const segmentMinutes = Math.floor(segmentSeconds / 60);
-      const segmentRemainingSeconds = segmentSeconds % 60;
-      timerText += ` | Seg: ${String(segmentMinutes).padStart(2, '0')}:${String(segmentRemainingSeconds).padStart(2, '0')}`;
+    const polishedText = await this.requestPolishedNote(prompt);
+    if (!polishedText) return false;
 
-      if (this.processingQueue.length > 0 || this.isProcessingSegment) {
-        timerText += ` | Processando: ${this.segmentCount} Seg`;
+    const summarized = new Set(pending.map(({ segmentNumber }) => segmentNumber));
+    this.pendingSummarySegments = this.pendingSummarySegments
+      .filter(({ segmentNumber }) => !summarized.has(segmentNumber));
+    return true;
+  }
+
+  // Passagem final: reorganiza o resumo construído incrementalmente quando a gravação termina
+  private async consolidatePolishedNote(): Promise<void> {
+    // Segmentos cujo resumo falhou entram ainda no resumo antes da consolidação
+    await this.updateRollingSummary();
+
+    if (!this.accumulatedPolishedNote.trim() || this.isSummaryPausedByBudget()) return;
+
+    this.setStatus(MESSAGES.CONSOLIDATING_NOTE);
+
+    const prompt = `
+          A reunião terminou. Faz a consolidação final deste resumo, que foi construído de forma incremental
+          à medida que a transcrição chegava:
+          - Junta pontos duplicados ou repetidos e reorganiza-os por tema.
+          - Garante que os "Tópicos Principais" refletem a reunião completa e não apenas o início.
+          - Reúne todas as decisões e ações na secção própria.
+          - NÃO acrescentes informação que não esteja no resumo.
+          ${this.getNoteFormatInstructions()}
+          RESUMO A CONSOLIDAR:
+          ${this.accumulatedPolishedNote}
+          `;
+
+    if (await this.requestPolishedNote(prompt)) {
+      this.setStatus(MESSAGES.NOTE_IMPROVED);
+      await this.extractActionItems();
+    }
+  }
+
+  // Consolida quando a gravação parou e já não há segmentos por processar
+  private async maybeConsolidatePolishedNote(): Promise<void> {
+    if (!this.pendingConsolidation || this.isContinuousMode ||
+      this.isProcessingSegment || this.processingQueue.length > 0) {
+      return;
+    }
+
+    this.pendingConsolidation = false;
+    // Guarda já os últimos segmentos: a consolidação é cancelada se o utilizador mudar de nota
+    await this.saveCurrentNote(true);
+    await this.consolidatePolishedNote();
+  }
+
+  private async requestPolishedNote(prompt: string): Promise<string | null> {
+    if (!this.hasValidContent(this.rawTranscription)) {
+      return null;
+    }
+
+    // Um novo pedido torna obsoleto o que ainda está em curso
+    this.summaryAbortController?.abort();
+    const controller = new AbortController();
+    this.summaryAbortController = controller;
+    this.polishedNote?.classList.add('streaming');
+
+    const noteId = this.currentNote?.id;
+    try {
+      const provider = this.getProvider();
+      const polishedText = await provider.generate(prompt, {
+        signal: controller.signal,
+        onText: (text) => this.schedulePolishedRender(text, controller),
+        onUsage: (usage) => this.recordUsage(noteId, 'summary', provider.id, usage),
+      });
+
+      if (controller.signal.aborted) {
+        return null;
+      }
+
+      if (polishedText) {
+        this.accumulatedPolishedNote = polishedText;
+        console.log(this.accumulatedPolishedNote);
+        this.updatePolishedDisplay(polishedText);
+
+        if (!this.hasValidContent(this.editorTitle)) {
+          this.updateNoteTitle(polishedText);
+        }
+
+        if (this.currentNote) {
+          this.currentNote.polishedNote = polishedText;
+        }
+
+        await this.saveCurrentNote(true);
+      } else {
+        this.updatePolishedDisplay(this.accumulatedPolishedNote);
+      }
+      return polishedText || null;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('Geração da nota cancelada por um pedido mais recente');
+        return null;
+      }
+      console.error('Erro ao melhorar a nota:', error);
+      // Repor a última versão completa no lugar do texto parcial
+      this.updatePolishedDisplay(this.accumulatedPolishedNote);
+      return null;
+    } finally {
+      if (this.summaryAbortController === controller) {
+        this.summaryAbortController = null;
+        this.polishedNote?.classList.remove('streaming');
       }
     }
+  }
 
-    this.liveRecordingTimerDisplay.textContent = timerText;
+  // Mostra o texto recebido em streaming, no máximo uma vez por frame
+  private schedulePolishedRender(text: string, controller: AbortController): void {
+    this.streamedPolishedText = text;
+    if (this.polishedRenderFrame !== null) return;
+
+    this.polishedRenderFrame = requestAnimationFrame(() => {
+      this.polishedRenderFrame = null;
+      if (this.summaryAbortController === controller && !controller.signal.aborted) {
+        this.updatePolishedDisplay(this.streamedPolishedText);
+      }
+    });
   }
 
-  private startLiveDisplay(): void {
-    const elements = [this.recordingInterface, this.liveRecordingTitle,
-    this.liveWaveformCanvas, this.liveRecordingTimerDisplay];
+  private updatePolishedDisplay(polishedText: string): void {
+    if (!this.polishedNote) return;
 
-    if (elements.some(el => !el)) {
-      console.warn('Elementos de exibição ao vivo em falta.');
-      return;
+    const htmlContent = linkTimestamps(marked.parse(polishedText));
+    this.polishedNote.innerHTML = htmlContent;
+    this.setPlaceholder(this.polishedNote, !polishedText.trim());
+
+    // Scroll to bottom para mostrar novo conteúdo
+    this.polishedNote.scrollTop = this.polishedNote.scrollHeight;
+  }
+
+  private updateNoteTitle(polishedText: string): void {
+    if (!this.editorTitle) return;
+
+    const lines = polishedText.split('\n').map(l => l.trim());
+    let titleSet = false;
+
+    for (const line of lines) {
+      if (line.startsWith('#')) {
+        const title = line.replace(/^#+\s+/, '').trim();
+        if (title) {
+          this.editorTitle.textContent = title;
+          this.setPlaceholder(this.editorTitle, false);
+          titleSet = true;
+          break;
+        }
+      }
     }
 
-    this.recordingInterface!.classList.add('is-live');
-    [this.liveRecordingTitle, this.liveWaveformCanvas, this.liveRecordingTimerDisplay]
-      .forEach(el => el!.style.display = 'block');
+    if (!titleSet) {
+      for (const line of lines) {
+        if (line.length > 0) {
+          let potentialTitle = line.replace(/^[\*_\`#\->\s\[\]\(.\d)]+/, '');
+          potentialTitle = potentialTitle.replace(/[\*_\`#]+$/, '').trim();
 
-    this.setupCanvasDimensions();
+          if (potentialTitle.length > 3) {
+            const maxLength = 60;
+            this.editorTitle.textContent = potentialTitle.substring(0, maxLength) +
+              (potentialTitle.length > maxLength ? '...' : '');
+            this.setPlaceholder(this.editorTitle, false);
+            titleSet = true;
+            break;
+          }
+        }
+      }
+    }
 
-    if (this.statusIndicatorDiv) {
-      this.statusIndicatorDiv.style.display = 'none';
+    if (!titleSet) {
+      this.setPlaceholder(this.editorTitle);
     }
+  }
 
-    const iconElement = this.recordButton?.querySelector('.record-button-inner i') as HTMLElement;
-    if (iconElement) {
-      iconElement.classList.replace('fa-microphone', 'fa-stop');
+  // Regista o consumo de um pedido na nota que estava aberta quando o pedido começou (e no segmento, na transcrição)
+  private async recordUsage(
+    noteId: string | undefined,
+    kind: UsageKind,
+    providerId: ProviderId,
+    usage: TokenUsage,
+    segmentNumber?: number
+  ): Promise<void> {
+    if (!noteId) return;
+
+    const record: UsageRecord = {
+      ...usage,
+      id: `usage_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      noteId,
+      kind,
+      providerId,
+      segmentNumber,
+      cost: estimateCost(usage),
+      timestamp: Date.now(),
+    };
+
+    try {
+      await this.noteStore.saveUsage(record);
+      await this.updateUsageIndicator();
+    } catch (error) {
+      console.error('Erro ao registar o consumo:', error);
     }
+  }
 
-    const currentTitle = this.editorTitle?.textContent?.trim();
-    const placeholder = this.editorTitle?.getAttribute('placeholder') || 'Untitled Note';
-    let displayTitle = (currentTitle && currentTitle !== placeholder) ? currentTitle : 'Nova Gravação';
+  // Totais da nota aberta e do mês no botão de consumo, e aviso de orçamento
+  private async updateUsageIndicator(): Promise<void> {
+    try {
+      const records = await this.noteStore.getAllUsage();
+      const month = getMonthKey(Date.now());
+      const noteTotals = summarizeUsage(records.filter(record => record.noteId === this.currentNote?.id));
+      this.monthlyCost = summarizeUsage(records.filter(record => getMonthKey(record.timestamp) === month)).cost;
 
-    if (this.isContinuousMode) {
-      displayTitle += ' (Gravação Contínua - SEM Interrupções)';
+      if (this.usageButton) {
+        this.usageButton.title = `Consumo — esta nota: ${formatCost(noteTotals.cost)}, este mês: ${formatCost(this.monthlyCost)}`;
+      }
+
+      const budget = this.settings.monthlyBudgetUsd;
+      const exceeded = budget > 0 && this.monthlyCost >= budget;
+      this.usageButton?.classList.toggle('over-budget', exceeded);
+      if (exceeded && !this.budgetWarningShown) {
+        this.budgetWarningShown = true;
+        this.setStatus(`${MESSAGES.BUDGET_EXCEEDED} (${formatCost(this.monthlyCost)} / ${formatCost(budget)})`);
+      }
+    } catch (error) {
+      console.error('Erro ao carregar o consumo:', error);
     }
+  }
 
-    this.liveRecordingTitle!.textContent = displayTitle;
+  // Com a ação "parar", o resumo deixa de ser atualizado automaticamente depois de exceder o orçamento
+  private isSummaryPausedByBudget(): boolean {
+    const budget = this.settings.monthlyBudgetUsd;
+    return this.settings.budgetAction === 'stop' && budget > 0 && this.monthlyCost >= budget;
+  }
 
-    this.setupAudioVisualizer();
-    this.drawLiveWaveform();
+  private async openUsage(): Promise<void> {
+    if (!this.usageDialog || !this.usageContent) return;
 
-    this.recordingStartTime = Date.now();
-    this.updateLiveTimer();
-    this.timerIntervalId = window.setInterval(() => this.updateLiveTimer(), 50);
+    try {
+      const records = await this.noteStore.getAllUsage();
+      const noteRecords = records.filter(record => record.noteId === this.currentNote?.id);
+      const months = groupUsageByMonth(records);
+      const currentMonth = months.find(([month]) => month === getMonthKey(Date.now()))?.[1] || summarizeUsage([]);
+      const budget = this.settings.monthlyBudgetUsd;
+
+      const segmentRows = [...new Set(noteRecords.map(record => record.segmentNumber))]
+        .sort((a, b) => (a ?? Infinity) - (b ?? Infinity))
+        .map(segmentNumber => {
+          const totals = summarizeUsage(noteRecords.filter(record => record.segmentNumber === segmentNumber));
+          return this.renderUsageRow(segmentNumber !== undefined ? `Segmento ${segmentNumber}` : 'Resumo, ações e perguntas', totals);
+        });
+
+      this.usageContent.innerHTML = `
+        <h3 class="dialog-subtitle">Esta nota</h3>
+        ${noteRecords.length > 0 ? this.renderUsageTable([...segmentRows, this.renderUsageRow('Total', summarizeUsage(noteRecords))]) : `<p class="dialog-hint">${MESSAGES.NO_USAGE}</p>`}
+        <h3 class="dialog-subtitle">Este mês</h3>
+        <p class="usage-month">${formatCost(currentMonth.cost)}${budget > 0 ? ` de ${formatCost(budget)}` : ''} · ${formatTokens(currentMonth.inputTokens + currentMonth.outputTokens)} tokens · ${Math.round(currentMonth.audioSeconds / 60)} min de áudio</p>
+        ${budget > 0 ? `<progress class="usage-budget" max="${budget}" value="${Math.min(currentMonth.cost, budget)}"></progress>` : ''}
+        <h3 class="dialog-subtitle">Por mês</h3>
+        ${months.length > 0 ? this.renderUsageTable(months.map(([month, totals]) => this.renderUsageRow(month, totals))) : `<p class="dialog-hint">${MESSAGES.NO_USAGE}</p>`}
+      `;
+      this.usageDialog.showModal();
+    } catch (error) {
+      console.error('Erro ao carregar o consumo:', error);
+    }
   }
 
-  private stopLiveDisplay(): void {
-    if (this.recordingInterface) {
-      this.recordingInterface.classList.remove('is-live');
+  private renderUsageTable(rows: string[]): string {
+    return `<table class="usage-table">
+      <thead><tr><th></th><th>Áudio</th><th>Entrada</th><th>Saída</th><th>Custo</th></tr></thead>
+      <tbody>${rows.join('')}</tbody>
+    </table>`;
+  }
+
+  private renderUsageRow(label: string, totals: UsageTotals): string {
+    // Pedidos a modelos sem preço conhecido (ex.: servidores locais) são assinalados com "+"
+    const cost = `${formatCost(totals.cost)}${totals.unpricedCalls > 0 ? '+' : ''}`;
+    return `<tr><td>${this.escapeHtml(label)}</td><td>${totals.audioSeconds > 0 ? formatTimestamp(totals.audioSeconds) : '—'}</td>` +
+      `<td>${formatTokens(totals.inputTokens)}</td><td>${formatTokens(totals.outputTokens)}</td><td>${cost}</td></tr>`;
+  }
+
+  private async exportUsage(): Promise<void> {
+    try {
+      const [records, notes] = await Promise.all([this.noteStore.getAllUsage(), this.noteStore.getAllNotes()]);
+      downloadFile('consumo.csv', usageToCsv(records, notes), 'text/csv');
+    } catch (error) {
+      console.error('Erro ao exportar o consumo:', error);
     }
+  }
 
-    [this.liveRecordingTitle, this.liveWaveformCanvas, this.liveRecordingTimerDisplay]
-      .forEach(el => {
-        if (el) el.style.display = 'none';
+  // Biblioteca de notas (IndexedDB)
+  private async initializeLibrary(): Promise<void> {
+    try {
+      const migrated = await this.noteStore.migrateLegacyNotes();
+      if (migrated > 0) {
+        this.setStatus(`${migrated} ${MESSAGES.NOTES_MIGRATED}`);
+      }
+      await this.refreshNotesList();
+      await this.updateUsageIndicator();
+      await this.checkUnfinishedSessions();
+    } catch (error) {
+      console.error('Erro ao carregar a biblioteca de notas:', error);
+    }
+  }
+
+  private async refreshNotesList(): Promise<void> {
+    if (!this.notesList) return;
+
+    const notes = await this.noteStore.getAllNotes();
+    this.searchIndex.build(notes);
+    this.renderNotesList();
+    this.createDownloadLink(notes);
+  }
+
+  // Lista completa ou, com pesquisa ou datas preenchidas, os resultados do índice
+  private renderNotesList(): void {
+    if (!this.notesList) return;
+
+    const query = this.searchInput?.value.trim() || '';
+    const filters = {
+      from: this.searchFromDate?.value ? new Date(`${this.searchFromDate.value}T00:00:00`).getTime() : undefined,
+      to: this.searchToDate?.value ? new Date(`${this.searchToDate.value}T23:59:59.999`).getTime() : undefined,
+    };
+    const isSearching = query !== '' || filters.from !== undefined || filters.to !== undefined;
+
+    const results = this.searchIndex.search(query, filters);
+    this.notesList.replaceChildren(...results.map(result =>
+      query ? this.createSearchResultItem(result, tokenize(query)) : this.createNoteListItem(result.note)));
+
+    if (this.notesListEmpty) {
+      this.notesListEmpty.textContent = isSearching ? MESSAGES.NO_SEARCH_RESULTS : MESSAGES.NO_NOTES;
+      this.notesListEmpty.classList.toggle('hidden', results.length > 0);
+    }
+  }
+
+  private createSearchResultItem(result: SearchResult, terms: string[]): HTMLLIElement {
+    const item = this.createNoteListItem(result.note);
+    item.classList.add('search-result');
+
+    const title = item.querySelector<HTMLElement>('.note-list-title');
+    if (title) {
+      title.innerHTML = highlightTerms(result.note.title || MESSAGES.UNTITLED_NOTE, terms, false);
+    }
+
+    const matches = document.createElement('div');
+    matches.className = 'search-matches';
+    result.matches.forEach(match => {
+      const snippet = document.createElement('div');
+      snippet.className = 'search-snippet';
+      snippet.innerHTML = match.snippet;
+      snippet.title = match.field === 'rawTranscription' ? 'Transcrição original' : 'Nota melhorada';
+      snippet.addEventListener('click', (event) => {
+        event.stopPropagation();
+        this.openSearchMatch(result.note.id, match);
       });
+      matches.appendChild(snippet);
+    });
 
-    if (this.statusIndicatorDiv) {
-      this.statusIndicatorDiv.style.display = 'block';
+    item.querySelector('.note-list-text')?.appendChild(matches);
+    return item;
+  }
+
+  // Abre a nota no separador da passagem, destaca-a e posiciona o áudio no instante correspondente
+  private async openSearchMatch(noteId: string, match: SearchMatch): Promise<void> {
+    if (this.currentNote?.id !== noteId) {
+      await this.openNote(noteId);
+      if (this.currentNote?.id !== noteId) return;
     }
 
-    const iconElement = this.recordButton?.querySelector('.record-button-inner i') as HTMLElement;
-    if (iconElement) {
-      iconElement.classList.replace('fa-stop', 'fa-microphone');
+    const isRaw = match.field === 'rawTranscription';
+    document.querySelector<HTMLButtonElement>(`.tab-button[data-tab="${isRaw ? 'raw' : 'note'}"]`)?.click();
+
+    const container = isRaw ? this.rawTranscription : this.polishedNote;
+    const key = tokenize(match.passage).slice(0, 8).join(' ');
+    const candidates = Array.from(container.querySelectorAll<HTMLElement>(
+      isRaw ? '.transcript-line' : 'p, li, h1, h2, h3, h4, h5, h6, td, blockquote'));
+    const element = candidates.find(candidate => tokenize(candidate.textContent || '').join(' ').includes(key));
+
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      element.classList.add('search-hit');
+      window.setTimeout(() => element.classList.remove('search-hit'), this.SEARCH_HIGHLIGHT_MS);
+    }
+
+    if (match.timestamp !== undefined && this.notePlayer?.hasAudio) {
+      this.notePlayer.seek(match.timestamp, false);
+    }
+  }
+
+  private createNoteListItem(note: Note): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = 'note-list-item';
+    item.classList.toggle('active', note.id === this.currentNote?.id);
+    item.addEventListener('click', () => this.openNote(note.id));
+
+    const text = document.createElement('div');
+    text.className = 'note-list-text';
+
+    const title = document.createElement('span');
+    title.className = 'note-list-title';
+    title.textContent = note.title || MESSAGES.UNTITLED_NOTE;
+
+    const date = document.createElement('span');
+    date.className = 'note-list-date';
+    date.textContent = new Date(note.timestamp).toLocaleString(getLanguage(note.outputLanguage).locale, {
+      dateStyle: 'short',
+      timeStyle: 'short',
+    });
+
+    text.append(title, date);
+
+    const renameButton = this.createSidebarButton('fa-pen', 'Renomear', () => this.renameNote(note.id));
+    const deleteButton = this.createSidebarButton('fa-trash', 'Eliminar', () => this.deleteNote(note.id));
+
+    item.append(text, renameButton, deleteButton);
+    return item;
+  }
+
+  private createSidebarButton(icon: string, title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'sidebar-icon-button';
+    button.title = title;
+    button.innerHTML = `<i class="fas ${icon}"></i>`;
+    button.addEventListener('click', (event) => {
+      event.stopPropagation();
+      onClick();
+    });
+    return button;
+  }
+
+  private async openNote(id: string): Promise<void> {
+    if (this.isRecording) {
+      this.setStatus(MESSAGES.BUSY_RECORDING);
+      return;
     }
+    if (!this.ensureNoteIdle()) return;
 
-    this.cleanupAnimations();
+    try {
+      const note = await this.noteStore.getNote(id);
+      if (!note) return;
+
+      this.createNewNote();
+      this.currentNote = note;
+      this.segmentCount = note.segmentCount;
+      this.accumulatedTranscription = note.rawTranscription;
+      this.accumulatedPolishedNote = note.polishedNote;
+
+      this.editorTitle.textContent = note.title;
+      this.setPlaceholder(this.editorTitle, !note.title);
+      this.updateTranscriptionDisplay(note.rawTranscription);
+      await this.loadFailedSegments(note.id);
+
+      if (this.providerSelect) {
+        this.providerSelect.value = note.providerId || 'gemini';
+      }
+      this.refreshTemplateSelect();
+      this.updateLanguageSelects();
+      this.renderActionItems();
+      void this.updateUsageIndicator();
+      if (this.participantsInput) {
+        this.participantsInput.value = note.participants || '';
+      }
 
-    if (this.liveWaveformCtx && this.liveWaveformCanvas) {
-      this.liveWaveformCtx.clearRect(0, 0, this.liveWaveformCanvas.width, this.liveWaveformCanvas.height);
-    }
+      if (note.polishedHtml) {
+        this.polishedNote.innerHTML = note.polishedHtml;
+        this.setPlaceholder(this.polishedNote, false);
+      } else {
+        this.updatePolishedDisplay(note.polishedNote);
+      }
 
-    this.cleanupAudioContext();
+      await this.loadNotePlayer();
+      this.setStatus(MESSAGES.NOTE_OPENED);
+      await this.refreshNotesList();
+    } catch (error) {
+      console.error('Erro ao abrir a nota:', error);
+    }
   }
 
-  private async mergeAudioStreams(stream1: MediaStream, stream2: MediaStream): Promise<MediaStream> {
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    window.audioContext = audioContext;
+  private async renameNote(id: string): Promise<void> {
+    try {
+      const note = await this.noteStore.getNote(id);
+      if (!note) return;
 
-    const dest = audioContext.createMediaStreamDestination();
+      const newTitle = window.prompt(MESSAGES.RENAME_NOTE_PROMPT, note.title)?.trim();
+      if (!newTitle || newTitle === note.title) return;
 
-    [stream1, stream2].forEach(stream => {
-      if (stream.getAudioTracks().length > 0) {
-        const source = audioContext.createMediaStreamSource(stream);
-        source.connect(dest);
+      note.title = newTitle;
+      note.updatedAt = Date.now();
+      await this.noteStore.saveNote(note);
+
+      if (this.currentNote?.id === id) {
+        this.currentNote.title = newTitle;
+        this.editorTitle.textContent = newTitle;
+        this.setPlaceholder(this.editorTitle, false);
       }
-    });
 
-    return dest.stream;
+      this.setStatus(MESSAGES.NOTE_RENAMED);
+      await this.refreshNotesList();
+    } catch (error) {
+      console.error('Erro ao renomear a nota:', error);
+    }
   }
 
-  private async captureAudioStreams(): Promise<{ screen: MediaStream | null, mic: MediaStream | null }> {
-    let screenStream: MediaStream | null = null;
-    let micStream: MediaStream | null = null;
+  private async deleteNote(id: string): Promise<void> {
+    if (this.currentNote?.id === id && !this.ensureNoteIdle()) return;
+    if (!window.confirm(MESSAGES.CONFIRM_DELETE_NOTE)) return;
 
-    if (navigator.mediaDevices.getDisplayMedia) {
-      try {
-        screenStream = await navigator.mediaDevices.getDisplayMedia({
-          audio: {
-            echoCancellation: false,
-            noiseSuppression: false,
-            autoGainControl: false,
-            sampleRate: 48000
-          },
-        });
-      } catch (e) {
-        console.warn('Falha ao capturar áudio da aba:', e);
+    try {
+      await this.noteStore.deleteNote(id);
+
+      if (this.currentNote?.id === id && !this.isRecording) {
+        this.createNewNote();
       }
+
+      this.setStatus(MESSAGES.NOTE_DELETED);
+      await this.refreshNotesList();
+    } catch (error) {
+      console.error('Erro ao eliminar a nota:', error);
     }
+  }
 
+  private async saveCurrentNote(silent: boolean = false): Promise<void> {
     try {
-      micStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: 48000
-        }
-      });
-    } catch (e) {
-      console.error('Falha ao capturar microfone:', e);
-      throw e;
-    }
+      if (!this.currentNote) return;
 
-    return { screen: screenStream, mic: micStream };
-  }
+      const hasPolished = this.hasValidContent(this.polishedNote);
+      // A transcrição vem sempre do modelo em memória: no separador oculto o innerText perde as quebras de linha
+      const hasRaw = this.accumulatedTranscription.trim() !== '';
 
-  private async setupFinalStream(hasTabAudio: boolean, hasMicAudio: boolean): Promise<MediaStream> {
-    if (hasTabAudio && hasMicAudio) {
-      return await this.mergeAudioStreams(this.screenStream!, this.micStream!);
-    } else if (hasMicAudio) {
-      return this.micStream!;
-    } else if (hasTabAudio) {
-      return await this.mergeAudioStreams(this.screenStream!, this.screenStream!);
-    } else {
-      throw new Error('Nenhum fluxo de áudio disponível');
+      if (!hasPolished && !hasRaw) {
+        if (!silent) this.setStatus(MESSAGES.NO_NOTE_TO_SAVE);
+        return;
+      }
+
+      this.currentNote.title = this.hasValidContent(this.editorTitle)
+        ? this.editorTitle.textContent!.trim()
+        : MESSAGES.UNTITLED_NOTE;
+      this.currentNote.rawTranscription = this.accumulatedTranscription;
+      this.currentNote.polishedNote = this.accumulatedPolishedNote;
+      // Durante o streaming a nota visível é parcial; guarda-se a última versão completa
+      const polishedHtml = this.summaryAbortController
+        ? linkTimestamps(marked.parse(this.accumulatedPolishedNote))
+        : this.polishedNote.innerHTML;
+      this.currentNote.polishedHtml = hasPolished ? polishedHtml : '';
+      this.currentNote.segmentCount = this.segmentCount;
+      this.currentNote.updatedAt = Date.now();
+
+      await this.noteStore.saveNote(this.currentNote);
+
+      if (!silent) this.setStatus(MESSAGES.NOTE_SAVED);
+      await this.refreshNotesList();
+    } catch (error) {
+      console.error('Erro ao salvar a nota:', error);
+      this.setStatus('Erro ao salvar a nota');
     }
   }
 
-  private handleRecordingError(error: unknown): void {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const errorName = error instanceof Error ? error.name : 'Unknown';
-
-    let statusMessage = `Erro: ${errorMessage}`;
+  // Recuperação de sessões interrompidas (falha do separador, recarregamento, etc.)
+  private async checkUnfinishedSessions(): Promise<void> {
+    const [note] = await this.noteStore.getUnfinishedNotes();
+    if (!note || !this.recoveryBanner) return;
 
-    if (['NotAllowedError', 'PermissionDeniedError'].includes(errorName)) {
-      statusMessage = MESSAGES.PERMISSION_DENIED;
-    } else if (errorName === 'NotFoundError' ||
-      (errorName === 'DOMException' && errorMessage.includes('Requested device not found'))) {
-      statusMessage = MESSAGES.NO_AUDIO_DEVICE;
-    } else if (['NotReadableError', 'AbortError'].includes(errorName) ||
-      (errorName === 'DOMException' && errorMessage.includes('Failed to allocate audiosource'))) {
-      statusMessage = MESSAGES.AUDIO_IN_USE;
-    }
+    this.recoveryMessage.textContent = `${MESSAGES.UNFINISHED_SESSION} ${note.title || MESSAGES.UNTITLED_NOTE}`;
+    this.recoveryBanner.classList.remove('hidden');
 
-    this.setStatus(statusMessage);
-    this.isRecording = false;
-    this.isContinuousMode = false;
-    this.cleanupStreams();
-    this.recordButton?.classList.remove('recording');
-    this.recordButton?.setAttribute('title', 'Iniciar Gravação');
-    this.stopLiveDisplay();
+    this.recoveryResumeButton.onclick = () => {
+      this.recoveryBanner.classList.add('hidden');
+      this.resumeUnfinishedSession(note.id);
+    };
+    this.recoveryDiscardButton.onclick = async () => {
+      this.recoveryBanner.classList.add('hidden');
+      note.recordingStatus = 'complete';
+      await this.noteStore.saveNote(note);
+      await this.checkUnfinishedSessions();
+    };
   }
 
-  private async convertToWav(audioBlob: Blob): Promise<Blob> {
-    const arrayBuffer = await audioBlob.arrayBuffer();
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+  private async resumeUnfinishedSession(id: string): Promise<void> {
+    try {
+      await this.openNote(id);
+      if (this.currentNote?.id !== id) return;
 
-    const { length, numberOfChannels, sampleRate } = audioBuffer;
-    const channelData = Array.from({ length: numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+      const segments = await this.noteStore.getSegments(id);
+      const pending = segments.filter(segment => segment.status === 'pending' || segment.status === 'failed');
+      this.segmentCount = Math.max(this.segmentCount, ...segments.map(segment => segment.segmentNumber));
 
-    const interleaved = new Float32Array(length * numberOfChannels);
-    for (let i = 0; i < length; i++) {
-      for (let channel = 0; channel < numberOfChannels; channel++) {
-        interleaved[i * numberOfChannels + channel] = channelData[channel][i];
+      if (pending.length > 0) {
+        this.setStatus(MESSAGES.SESSION_RECOVERED);
+        await this.transcribeStoredSegments(pending);
       }
+
+      await this.saveCurrentNote(true);
+      await this.setRecordingStatus('complete');
+      this.setStatus(MESSAGES.READY_TO_RECORD);
+      await this.checkUnfinishedSessions();
+    } catch (error) {
+      console.error('Erro ao recuperar a sessão:', error);
     }
+  }
 
-    const buffer = new ArrayBuffer(44 + interleaved.length * 2);
-    const view = new DataView(buffer);
+  private async retranscribeCurrentNote(): Promise<void> {
+    if (!this.currentNote || this.isRecording) return;
 
-    const writeString = (offset: number, str: string) => {
-      for (let i = 0; i < str.length; i++) {
-        view.setUint8(offset + i, str.charCodeAt(i));
+    try {
+      const storedSegments = await this.noteStore.getSegments(this.currentNote.id);
+      const segments = storedSegments.filter(segment => segment.status !== 'silent');
+      if (segments.length === 0) {
+        this.setStatus(MESSAGES.NO_STORED_SEGMENTS);
+        return;
       }
-    };
 
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + interleaved.length * 2, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numberOfChannels * 2, true);
-    view.setUint16(32, numberOfChannels * 2, true);
-    view.setUint16(34, 16, true);
-    writeString(36, 'data');
-    view.setUint32(40, interleaved.length * 2, true);
-
-    let offset = 44;
-    for (let i = 0; i < interleaved.length; i++, offset += 2) {
-      const sample = Math.max(-1, Math.min(1, interleaved[i]));
-      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
-    }
-
-    return new Blob([view], { type: 'audio/wav' });
-  }
-
-  private async blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        try {
-          const base64data = reader.result as string;
-          resolve(base64data.split(',')[1]);
-        } catch (err) {
-          reject(err);
-        }
-      };
-      reader.onerror = () => reject(reader.error);
-      reader.readAsDataURL(blob);
-    });
+      if (this.accumulatedTranscription.trim() && !window.confirm(MESSAGES.CONFIRM_RETRANSCRIBE)) return;
+
+      this.accumulatedTranscription = '';
+      this.accumulatedPolishedNote = '';
+      this.pendingSummarySegments = [];
+      this.updateTranscriptionDisplay('');
+      this.updatePolishedDisplay('');
+      storedSegments.filter(segment => segment.status === 'silent').forEach(segment => this.addPauseMarker(segment));
+
+      this.setStatus(MESSAGES.RETRANSCRIBING);
+      await this.transcribeStoredSegments(segments);
+      await this.saveCurrentNote(true);
+      this.setStatus(MESSAGES.NOTE_IMPROVED);
+    } catch (error) {
+      console.error('Erro ao transcrever novamente a nota:', error);
+    }
   }
 
-  private async getSegmentTranscription(base64Audio: string, segmentNumber: number): Promise<void> {
-    try {
-      const contents = [
-        { text: 'Gere uma transcrição completa e detalhada deste áudio.' },
-        { inlineData: { mimeType: 'audio/wav', data: base64Audio } },
-      ];
-
-      const response = await this.genAI.models.generateContent({
-        model: MODEL_NAME,
-        contents: contents,
-      });
+  // Coloca segmentos guardados na fila de processamento e aguarda a conclusão
+  private async transcribeStoredSegments(segments: StoredSegment[]): Promise<void> {
+    // Notas gravadas antes de existir 'recordingStartedAt' usam o início do primeiro segmento
+    if (this.currentNote && segments.length > 0) {
+      this.currentNote.recordingStartedAt ??= Math.min(...segments.map(segment => segment.startTime));
+    }
+    this.pendingConsolidation = true;
+    this.processingQueue.push(...segments);
+    this.processNextSegment();
 
-      const transcriptionText = response.text;
+    while (this.processingQueue.length > 0 || this.isProcessingSegment) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
 
-      if (transcriptionText) {
-        this.segmentCount = Math.max(this.segmentCount, segmentNumber);
-        const segmentHeader = `\n\n=== SEGMENTO ${segmentNumber} ===\n`;
-        const finalRaw = this.addAudioTags(transcriptionText.trim());
-        const fullTranscription = segmentHeader + finalRaw;
+    await this.maybeConsolidatePolishedNote();
+  }
 
-        this.accumulatedTranscription += fullTranscription;
-        this.updateTranscriptionDisplay(this.accumulatedTranscription);
+  // Segmentos que falharam após todas as tentativas automáticas
+  private addFailedSegment(segment: StoredSegment): void {
+    this.failedSegments = this.failedSegments.filter(failed => failed.id !== segment.id);
+    this.failedSegments.push(segment);
+    this.failedSegments.sort((a, b) => a.segmentNumber - b.segmentNumber);
+    this.renderFailedSegments();
+  }
 
-        if (this.currentNote) {
-          this.currentNote.rawTranscription = this.accumulatedTranscription;
-        }
+  private async loadFailedSegments(noteId: string): Promise<void> {
+    const segments = await this.noteStore.getSegments(noteId);
+    this.failedSegments = segments.filter(segment => segment.status === 'failed');
+    this.renderFailedSegments();
+  }
 
-        await this.getPolishedNote();
-      } else {
-        console.warn(`Transcrição vazia para segmento ${segmentNumber}`);
-      }
-    } catch (error) {
-      console.error(`Erro na transcrição do segmento ${segmentNumber}:`, error);
-      throw error;
-    }
+  private renderFailedSegments(): void {
+    if (!this.failedSegmentsPanel || !this.failedSegmentsList) return;
+
+    const locale = getLanguage(this.currentNote?.outputLanguage).locale;
+    this.failedSegmentsPanel.classList.toggle('hidden', this.failedSegments.length === 0);
+    this.failedSegmentsList.replaceChildren(...this.failedSegments.map(segment => {
+      const item = document.createElement('li');
+      item.className = 'failed-segment-item';
+
+      const label = document.createElement('span');
+      label.className = 'failed-segment-label';
+      const start = new Date(segment.startTime).toLocaleTimeString(locale);
+      const end = new Date(segment.endTime).toLocaleTimeString(locale);
+      label.textContent = `Segmento ${segment.segmentNumber} (${start} – ${end})`;
+      label.title = segment.error || '';
+
+      const retryButton = document.createElement('button');
+      retryButton.className = 'notice-button';
+      retryButton.textContent = 'Tentar novamente';
+      retryButton.addEventListener('click', () => this.retryFailedSegments([segment]));
+
+      item.append(label, retryButton);
+      return item;
+    }));
   }
 
-  private addAudioTags(transcription: string): string {
-    if (!this.openingTags && !this.closingTags) {
-      return transcription;
+  private retryFailedSegments(segments: StoredSegment[] = [...this.failedSegments]): void {
+    if (segments.length === 0) return;
+
+    const ids = new Set(segments.map(segment => segment.id));
+    this.failedSegments = this.failedSegments.filter(segment => !ids.has(segment.id));
+    this.renderFailedSegments();
+
+    segments.forEach(segment => {
+      segment.status = 'pending';
+      segment.error = undefined;
+    });
+    this.processingQueue.push(...segments);
+    this.processingQueue.sort((a, b) => a.segmentNumber - b.segmentNumber);
+    if (!this.isContinuousMode) {
+      this.pendingConsolidation = true;
     }
-    return `${this.openingTags}${transcription} ${this.closingTags}`;
+    this.processNextSegment();
   }
 
-  private updateTranscriptionDisplay(text: string): void {
-    if (!this.rawTranscription) return;
+  private getSegmentLabel(segmentNumber: number): string {
+    return this.importSegmentTotal
+      ? `Segmento ${segmentNumber} de ${this.importSegmentTotal}`
+      : `Segmento ${segmentNumber}`;
+  }
 
-    //this.rawTranscription.textContent = text;
-    const htmlText = text.replace(/\n/g, '<br>');
-    this.rawTranscription.innerHTML = htmlText;
-    this.setPlaceholder(this.rawTranscription, !text.trim());
+  // Importação de ficheiros de áudio/vídeo gravados fora da aplicação
+  private initFileDrop(): void {
+    if (!this.appContainer) return;
 
-    // Scroll to bottom para mostrar novo conteúdo
-    this.rawTranscription.scrollTop = this.rawTranscription.scrollHeight;
+    this.appContainer.addEventListener('dragover', (event) => {
+      if (!event.dataTransfer?.types.includes('Files')) return;
+      event.preventDefault();
+      this.appContainer.classList.add('drag-over');
+    });
+    this.appContainer.addEventListener('dragleave', (event) => {
+      if (!this.appContainer.contains(event.relatedTarget as Node | null)) {
+        this.appContainer.classList.remove('drag-over');
+      }
+    });
+    this.appContainer.addEventListener('drop', (event) => {
+      event.preventDefault();
+      this.appContainer.classList.remove('drag-over');
+      this.importFiles(Array.from(event.dataTransfer?.files || []));
+    });
   }
 
-  private async getPolishedNote(): Promise<void> {
+  private async importFiles(files: File[]): Promise<void> {
+    if (this.isRecording) {
+      this.setStatus(MESSAGES.BUSY_IMPORTING);
+      return;
+    }
+    if (this.isImporting) {
+      this.setStatus(MESSAGES.IMPORT_IN_PROGRESS);
+      return;
+    }
+    if (!this.ensureProviderConfigured()) return;
+
+    this.isImporting = true;
     try {
-      if (!this.hasValidContent(this.rawTranscription)) {
-        return;
+      // Cada ficheiro dá origem a uma nota própria
+      for (const file of files) {
+        if (!/^(audio|video)\//.test(file.type)) {
+          this.setStatus(`${MESSAGES.UNSUPPORTED_FILE} ${file.name}`);
+          continue;
+        }
+        await this.importFile(file);
       }
+    } finally {
+      this.isImporting = false;
+    }
+  }
 
-      const hoje = new Date();
+  private async importFile(file: File): Promise<void> {
+    try {
+      this.setStatus(`${MESSAGES.DECODING_FILE} ${file.name}...`);
+      const audioBuffer = await decodeAudio(file, SPEECH_SAMPLE_RATE);
+      const samples = mixToMono(audioBuffer);
+      const sampleRate = audioBuffer.sampleRate;
+
+      // Mesmas regras de corte da gravação ao vivo
+      const ranges = splitAtPauses(samples, sampleRate, {
+        ...getSegmentationTiming(this.settings),
+        pauseMs: this.PAUSE_DURATION_MS,
+        longPauseMs: this.LONG_PAUSE_DURATION_MS,
+        silenceThreshold: this.SILENCE_RMS_THRESHOLD,
+        windowMs: this.VAD_CHECK_INTERVAL_MS,
+      });
 
-      const prompt = `
-          Tens de transformar esta transcrição bruta de uma reunião contínua num resumo estruturado, limpo e consistente.
+      this.createNewNote();
+      const note = this.currentNote!;
+      note.title = file.name.replace(/\.[^.]+$/, '');
+      note.recordingStartedAt = note.timestamp;
+      this.editorTitle.textContent = note.title;
+      this.setPlaceholder(this.editorTitle, false);
+
+      const segments: StoredSegment[] = ranges.map((range, index) => ({
+        id: `${note.id}_${index + 1}`,
+        noteId: note.id,
+        blob: encodeWav([samples.subarray(Math.floor(range.start * sampleRate), Math.ceil(range.end * sampleRate))], sampleRate),
+        startTime: note.timestamp + range.start * 1000,
+        endTime: note.timestamp + range.end * 1000,
+        segmentNumber: index + 1,
+        status: range.hasSpeech ? 'pending' : 'silent',
+      }));
+
+      this.segmentCount = segments.length;
+      note.segmentCount = segments.length;
+      for (const segment of segments) {
+        await this.persistSegment(segment);
+      }
 
-          REGRAS IMPORTANTES:
-          1. Remove palavras de preenchimento (hum, ah, tipo), repetições, falsos começos e erros.
-          2. Mantém o sentido e a informação integral da conversa.
-          3. Usa **formatação Markdown**, mas SEM títulos inventados fora do contexto.
-          4. NÃO inventes nomes, datas ou contextos que não existam.
-          5. Mantém a sequência lógica dos temas.
-          6. Mantém o mesmo formato em todas as saídas, mesmo que a transcrição venha em partes diferentes.
-          7. Se um nome for mencionado, mantém-no tal como está no texto (não adivinha nomes ausentes).
+      // Tal como numa gravação, uma importação interrompida pode ser retomada
+      await this.setRecordingStatus('recording');
+      await this.loadNotePlayer();
 
-          FORMATO OBRIGATÓRIO DA SAÍDA:
+      this.importSegmentTotal = segments.length;
+      await this.transcribeStoredSegments(segments.filter(segment => segment.status === 'pending'));
 
-          # Notas da Reunião
+      await this.saveCurrentNote(true);
+      await this.setRecordingStatus('complete');
+      this.setStatus(`${MESSAGES.FILE_IMPORTED}: ${file.name}`);
+    } catch (error) {
+      console.error(`Erro ao importar o ficheiro ${file.name}:`, error);
+      this.setStatus(`${MESSAGES.IMPORT_FAILED}: ${file.name}`);
+    } finally {
+      this.importSegmentTotal = null;
+    }
+  }
 
-          **Data:** ${hoje} (usa a data da reunião se estiver presente)
-          **Participantes:** (lista apenas se forem mencionados, caso contrário deixa em branco)
+  // Perguntas sobre a transcrição da nota aberta ou, no âmbito "todas", sobre passagens recuperadas da biblioteca
+  private async askQuestion(question: string): Promise<void> {
+    question = question.trim();
+    if (!question || this.isAnswering) return;
+
+    const scope = this.chatScope;
+    const note = this.currentNote;
+    // A transcrição original já indica o início de cada segmento ("=== SEGMENTO N ===")
+    const transcript = this.accumulatedTranscription.trim();
+    const context = scope === 'note' ? transcript : this.buildLibraryContext(question);
+    if (!context) {
+      this.setStatus(scope === 'note' ? MESSAGES.CHAT_NO_TRANSCRIPT : MESSAGES.CHAT_NO_PASSAGES);
+      return;
+    }
 
-          ---
+    const history = this.chatHistory
+      .filter(message => message.scope === scope)
+      .slice(-this.CHAT_HISTORY_MESSAGES)
+      .map(message => `${message.role === 'user' ? 'Pergunta' : 'Resposta'}: ${message.content}`)
+      .join('\n\n');
 
-          ## 1. Tópicos Principais
-          - Resumo geral em 3-5 linhas sobre o que foi discutido.
+    const source = scope === 'note'
+      ? 'na transcrição da reunião abaixo, dividida em segmentos ("=== SEGMENTO N ===")'
+      : 'nas passagens abaixo, recuperadas de várias notas guardadas';
+    const citation = scope === 'note' ? '(Segmento N, [mm:ss])' : '(Nota "título", [mm:ss])';
 
-          ## 2. Pontos Detalhados
-          - Usa listas ou subtítulos curtos (###) para separar temas.
-          - Cada ponto deve conter apenas informação factual mencionada.
-          - Não usar frases genéricas tipo "a conversa foi produtiva".
+    const prompt = `
+          Responde à pergunta com base APENAS ${source}.
 
-          ## 3. Decisões e Ações
-          - Lista apenas ações concretas e responsabilidades se existirem.
+          REGRAS:
+          1. Se a resposta não estiver no texto, diz claramente que isso não foi mencionado; NÃO inventes.
+          2. Indica a origem de cada afirmação no formato ${citation}, usando os instantes [mm:ss] do texto quando existirem.
+          3. Cita números, datas e nomes exatamente como aparecem no texto.
+          4. Responde em ${getLanguage(note?.outputLanguage).promptName}, de forma concisa, em Markdown.
 
-          ---
+          ${history ? `Conversa anterior:\n${history}\n` : ''}
+          Texto:
+          ${context}
 
-          Transcrição bruta:
-          ${this.accumulatedTranscription}
+          Pergunta: ${question}
           `;
 
+    this.isAnswering = true;
+    this.chatInput.value = '';
+    this.chatHistory.push({ role: 'user', content: question, scope });
+    this.renderChat();
+    this.setStatus(MESSAGES.CHAT_THINKING);
 
-      const response = await this.genAI.models.generateContent({
-        model: MODEL_NAME,
-        contents: [{ text: prompt }],
-      });
+    try {
+      const provider = this.getProvider();
+      const answer = await withRetry(
+        () => provider.generate(prompt, { onUsage: (usage) => this.recordUsage(note?.id, 'chat', provider.id, usage) }),
+        { maxRetries: this.MAX_TRANSCRIPTION_RETRIES, baseDelayMs: this.RETRY_BASE_DELAY_MS }
+      );
+      this.chatHistory.push({ role: 'assistant', content: answer.trim(), scope });
+      this.setStatus(MESSAGES.CHAT_ANSWERED);
+    } catch (error) {
+      console.error('Erro ao responder à pergunta:', error);
+      this.chatHistory.push({ role: 'assistant', content: MESSAGES.CHAT_FAILED, scope });
+      this.setStatus(MESSAGES.CHAT_FAILED);
+    } finally {
+      this.isAnswering = false;
+      // A resposta só é mostrada se a nota não tiver mudado entretanto
+      if (this.currentNote === note) this.renderChat();
+    }
+  }
 
-      const polishedText = response.text;
+  private buildLibraryContext(question: string): string {
+    const passages = this.searchIndex.retrievePassages(question, this.CHAT_PASSAGE_LIMIT);
 
-      if (polishedText) {
-        this.accumulatedPolishedNote = polishedText;
-        console.log(this.accumulatedPolishedNote);
-        this.updatePolishedDisplay(polishedText);
+    return passages.map(passage => {
+      const date = new Date(passage.note.recordingStartedAt ?? passage.note.timestamp)
+        .toLocaleDateString(getLanguage(passage.note.outputLanguage).locale);
+      const field = passage.field === 'rawTranscription' ? 'transcrição' : 'nota melhorada';
+      return `--- Nota "${passage.note.title || MESSAGES.UNTITLED_NOTE}" (${date}, ${field}) ---\n${passage.text}`;
+    }).join('\n\n');
+  }
 
-        if (this.segmentCount === 1) {
-          this.updateNoteTitle(polishedText);
-        }
+  private renderChat(): void {
+    if (!this.chatMessages) return;
 
-        if (this.currentNote) {
-          this.currentNote.polishedNote = polishedText;
-        }
+    this.chatView.querySelectorAll<HTMLButtonElement>('[data-chat-scope]').forEach(button => {
+      button.classList.toggle('primary', button.dataset.chatScope === this.chatScope);
+    });
+
+    const messages = this.chatHistory.filter(message => message.scope === this.chatScope);
+    this.chatMessages.replaceChildren(...messages.map(message => {
+      const element = document.createElement('div');
+      element.className = `chat-message ${message.role}`;
+      if (message.role === 'user') {
+        element.textContent = message.content;
+      } else {
+        const html = marked.parse(message.content);
+        // Os instantes só correspondem ao leitor de áudio quando a pergunta é sobre a nota aberta
+        element.innerHTML = message.scope === 'note' ? linkTimestamps(html) : html;
       }
-    } catch (error) {
-      console.error('Erro ao melhorar a nota:', error);
+      return element;
+    }));
+
+    if (this.isAnswering) {
+      const pending = document.createElement('div');
+      pending.className = 'chat-message assistant pending';
+      pending.textContent = MESSAGES.CHAT_THINKING;
+      this.chatMessages.appendChild(pending);
     }
+
+    this.chatEmpty?.classList.toggle('hidden', messages.length > 0 || this.isAnswering);
+    this.chatMessages.lastElementChild?.scrollIntoView({ block: 'end' });
   }
 
-  private updatePolishedDisplay(polishedText: string): void {
-    if (!this.polishedNote) return;
+  // Ações estruturadas extraídas da transcrição (descrição, responsável, prazo e instante)
+  private async extractActionItems(): Promise<void> {
+    const note = this.currentNote;
+    const transcript = this.accumulatedTranscription.trim();
+    if (!note || !transcript || !this.hasValidContent(this.rawTranscription)) return;
+
+    this.setStatus(MESSAGES.EXTRACTING_ACTIONS);
+    const meetingDate = new Date(note.recordingStartedAt ?? note.timestamp).toISOString().slice(0, 10);
+
+    const prompt = `
+          Extrai da transcrição abaixo as ações (tarefas) concretas combinadas na reunião.
+          Responde APENAS com JSON, sem texto adicional, no formato:
+          {"actionItems": [{"description": "...", "owner": "nome ou null", "dueDate": "AAAA-MM-DD ou null", "timestamp": "mm:ss ou null"}]}
+
+          REGRAS:
+          1. Inclui apenas ações explicitamente combinadas; NÃO inventes responsáveis nem prazos.
+          2. Converte prazos relativos ("sexta-feira", "amanhã", "daqui a duas semanas") em datas, sabendo que a reunião foi a ${meetingDate}.
+          3. "timestamp" é o instante [mm:ss] da intervenção onde a ação foi combinada.
+          4. Escreve as descrições em ${getLanguage(note.outputLanguage).promptName}, de forma curta e começando por um verbo.
+          5. Se não houver ações, devolve {"actionItems": []}.
+
+          Transcrição:
+          ${transcript}
+          `;
 
-    const htmlContent = marked.parse(polishedText);
-    this.polishedNote.innerHTML = htmlContent;
-    this.setPlaceholder(this.polishedNote, !polishedText.trim());
+    try {
+      const provider = this.getProvider();
+      const response = await withRetry(
+        () => provider.generate(prompt, {
+          json: true,
+          onUsage: (usage) => this.recordUsage(note.id, 'actions', provider.id, usage),
+        }),
+        { maxRetries: this.MAX_TRANSCRIPTION_RETRIES, baseDelayMs: this.RETRY_BASE_DELAY_MS }
+      );
+      note.actionItems = mergeActionItems(note.actionItems || [], parseActionItems(response));
+      await this.noteStore.saveNote(note);
+
+      this.renderActionItems();
+      this.setStatus(`${note.actionItems.length} ${MESSAGES.ACTIONS_EXTRACTED}`);
+    } catch (error) {
+      console.error('Erro ao extrair as ações:', error);
+      this.setStatus(MESSAGES.ACTIONS_FAILED);
+    }
+  }
 
-    // Scroll to bottom para mostrar novo conteúdo
-    this.polishedNote.scrollTop = this.polishedNote.scrollHeight;
+  private async getActionItemsInScope(): Promise<NoteActionItem[]> {
+    const notes = this.actionItemsScope === 'all'
+      ? (await this.noteStore.getAllNotes()).map(note => note.id === this.currentNote?.id ? this.currentNote : note)
+      : this.currentNote ? [this.currentNote] : [];
+
+    return notes.flatMap(note => (note.actionItems || []).map(item => ({ note, item })));
   }
 
-  private updateNoteTitle(polishedText: string): void {
-    if (!this.editorTitle) return;
+  private async renderActionItems(): Promise<void> {
+    if (!this.actionItemsList) return;
 
-    const lines = polishedText.split('\n').map(l => l.trim());
-    let titleSet = false;
+    this.actionItemsView.querySelectorAll<HTMLButtonElement>('[data-scope]').forEach(button => {
+      button.classList.toggle('primary', button.dataset.scope === this.actionItemsScope);
+    });
 
-    for (const line of lines) {
-      if (line.startsWith('#')) {
-        const title = line.replace(/^#+\s+/, '').trim();
-        if (title) {
-          this.editorTitle.textContent = title;
-          this.setPlaceholder(this.editorTitle, false);
-          titleSet = true;
-          break;
-        }
-      }
+    try {
+      const items = await this.getActionItemsInScope();
+      this.actionItemsEmpty?.classList.toggle('hidden', items.length > 0);
+      this.actionItemsList.replaceChildren(...items.map(entry => this.createActionItemElement(entry)));
+    } catch (error) {
+      console.error('Erro ao carregar as ações:', error);
     }
+  }
 
-    if (!titleSet) {
-      for (const line of lines) {
-        if (line.length > 0) {
-          let potentialTitle = line.replace(/^[\*_\`#\->\s\[\]\(.\d)]+/, '');
-          potentialTitle = potentialTitle.replace(/[\*_\`#]+$/, '').trim();
-
-          if (potentialTitle.length > 3) {
-            const maxLength = 60;
-            this.editorTitle.textContent = potentialTitle.substring(0, maxLength) +
-              (potentialTitle.length > maxLength ? '...' : '');
-            this.setPlaceholder(this.editorTitle, false);
-            titleSet = true;
-            break;
-          }
-        }
+  private createActionItemElement({ note, item }: NoteActionItem): HTMLLIElement {
+    const element = document.createElement('li');
+    element.className = 'action-item';
+    element.classList.toggle('done', item.done);
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = item.done;
+    checkbox.addEventListener('change', () => this.toggleActionItem(note, item, checkbox.checked));
+
+    const text = document.createElement('div');
+    text.className = 'action-item-text';
+
+    const description = document.createElement('span');
+    description.className = 'action-item-description';
+    description.textContent = item.description;
+
+    const meta = document.createElement('span');
+    meta.className = 'action-item-meta';
+    if (item.owner) meta.append(this.createActionMeta('fa-user', item.owner));
+    if (item.dueDate) {
+      const dueDate = new Date(`${item.dueDate}T00:00:00`).toLocaleDateString(getLanguage(note.outputLanguage).locale);
+      meta.append(this.createActionMeta('fa-calendar', dueDate));
+    }
+    if (item.timestamp !== undefined) {
+      const mark = this.createActionMeta('fa-clock', formatTimestamp(item.timestamp));
+      // Só é possível saltar para o áudio da nota aberta
+      if (note.id === this.currentNote?.id) {
+        mark.classList.add('timestamp-link');
+        mark.dataset.time = String(item.timestamp);
       }
+      meta.append(mark);
     }
-
-    if (!titleSet) {
-      this.setPlaceholder(this.editorTitle);
+    if (this.actionItemsScope === 'all') {
+      const source = this.createActionMeta('fa-note-sticky', note.title || MESSAGES.UNTITLED_NOTE);
+      source.classList.add('action-item-note');
+      source.addEventListener('click', () => this.openNote(note.id));
+      meta.append(source);
     }
-  }
 
-  private saveNewNote(): void {
-    try {
-      if (!this.hasValidContent(this.polishedNote)) {
-        this.setStatus(MESSAGES.NO_NOTE_TO_SAVE);
-        return;
-      }
+    text.append(description, meta);
+    element.append(checkbox, text);
+    return element;
+  }
 
-      const noteContent = this.polishedNote.innerHTML;
-      const textContent = noteContent.replace(/<[^>]*>/g, '');
+  private createActionMeta(icon: string, label: string): HTMLSpanElement {
+    const span = document.createElement('span');
+    span.innerHTML = `<i class="fas ${icon}"></i> `;
+    span.append(label);
+    return span;
+  }
 
-      const now = new Date();
-      const dateFormatted = now.toLocaleDateString('pt-BR');
-      const timeFormatted = now.toLocaleTimeString('pt-BR');
-      const title = this.hasValidContent(this.editorTitle)
-        ? this.editorTitle.textContent
-        : 'Nota sem título';
+  private async toggleActionItem(note: Note, item: ActionItem, done: boolean): Promise<void> {
+    item.done = done;
+    try {
+      await this.noteStore.saveNote(note);
+      this.renderActionItems();
+    } catch (error) {
+      console.error('Erro ao atualizar a ação:', error);
+    }
+  }
 
-      const segmentInfo = this.segmentCount > 0 ?
-        ` (${this.segmentCount} segmentos)` : '';
+  private async exportActionItems(format: 'csv' | 'ics'): Promise<void> {
+    const items = await this.getActionItemsInScope();
+    if (items.length === 0) {
+      this.setStatus(MESSAGES.NO_ACTIONS_TO_EXPORT);
+      return;
+    }
 
-      const finalContent = `\n\n=== ${title}${segmentInfo} - ${dateFormatted} às ${timeFormatted} ===\n\n${textContent}\n\n`;
+    const baseName = this.actionItemsScope === 'all' || !this.currentNote
+      ? 'acoes'
+      : getExportFileName(this.currentNote, 'acoes').replace(/\.acoes$/, '_acoes');
 
-      const notesKey = 'voiceNotesAppNotas';
-      const savedNotes = localStorage.getItem(notesKey) || '';
-      const updatedNotes = savedNotes + finalContent;
-      localStorage.setItem(notesKey, updatedNotes);
+    if (format === 'csv') {
+      downloadFile(`${baseName}.csv`, actionItemsToCsv(items), 'text/csv');
+    } else {
+      downloadFile(`${baseName}.ics`, actionItemsToIcs(items), 'text/calendar');
+    }
+  }
 
-      this.setStatus(MESSAGES.NOTE_SAVED);
+  private async exportCurrentNote(format: ExportFormat): Promise<void> {
+    try {
+      // Guardar primeiro para incluir as edições feitas no editor
+      await this.saveCurrentNote(true);
+      const note = this.currentNote;
+      if (!note || (!note.polishedNote.trim() && !note.rawTranscription.trim())) {
+        this.setStatus(MESSAGES.NO_NOTE_TO_EXPORT);
+        return;
+      }
 
-      if (this.currentNote) {
-        this.currentNote.timestamp = Date.now();
+      if (format === 'pdf') {
+        const url = URL.createObjectURL(new Blob([noteToHtml(note, true)], { type: 'text/html' }));
+        if (!window.open(url, '_blank')) {
+          this.setStatus(MESSAGES.POPUP_BLOCKED);
+        }
+        setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+        return;
       }
 
-      this.createDownloadLink(updatedNotes);
+      const segments = ['json', 'srt', 'vtt'].includes(format) ? await this.noteStore.getSegments(note.id) : [];
+      const content = {
+        markdown: () => noteToMarkdown(note),
+        html: () => noteToHtml(note),
+        json: () => noteToJson(note, segments),
+        srt: () => noteToSrt(note, segments),
+        vtt: () => noteToVtt(note, segments),
+      }[format]();
+
+      const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+      downloadFile(getExportFileName(note, extension), content, mimeType);
+      this.setStatus(MESSAGES.NOTE_EXPORTED);
     } catch (error) {
-      console.error('Erro ao salvar a nota:', error);
-      this.setStatus('Erro ao salvar a nota');
+      console.error('Erro ao exportar a nota:', error);
     }
   }
 
-  private createDownloadLink(content: string): void {
+  private createDownloadLink(notes: Note[]): void {
     const existingLink = document.getElementById('download-notas');
     if (existingLink) {
+      URL.revokeObjectURL((existingLink as HTMLAnchorElement).href);
       existingLink.remove();
     }
 
+    if (notes.length === 0) return;
+
+    const content = notes.map(note => {
+      const date = new Date(note.timestamp);
+      const locale = getLanguage(note.outputLanguage).locale;
+      const segmentInfo = note.segmentCount > 0 ? ` (${note.segmentCount} segmentos)` : '';
+      const header = `=== ${note.title}${segmentInfo} - ${date.toLocaleDateString(locale)} às ${date.toLocaleTimeString(locale)} ===`;
+      return `\n\n${header}\n\n${note.polishedNote}\n\n`;
+    }).join('');
+
     const downloadLink = document.createElement('a');
     downloadLink.id = 'download-notas';
     downloadLink.href = URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
@@ -1113,17 +3633,45 @@ class VoiceNotesApp {
     this.recordingStatus.parentNode?.insertBefore(downloadLink, this.recordingStatus.nextSibling);
   }
 
+  // Botões "Nova nota": recusados enquanto houver trabalho que ainda escreve na nota atual
+  private requestNewNote(): void {
+    if (!this.ensureNoteIdle()) return;
+    this.createNewNote();
+  }
+
+  // Importações, segmentos por transcrever e resumos contínuos escrevem na nota aberta até terminarem
+  private ensureNoteIdle(): boolean {
+    if (this.isImporting) {
+      this.setStatus(MESSAGES.IMPORT_IN_PROGRESS);
+      return false;
+    }
+    if (this.isFinalizingRecording || this.isProcessingSegment || this.processingQueue.length > 0 ||
+      this.rollingSummaryRun) {
+      this.setStatus(MESSAGES.PROCESSING_IN_PROGRESS);
+      return false;
+    }
+    return true;
+  }
+
   private createNewNote(): void {
     if (this.isContinuousMode) {
       this.isContinuousMode = false;
       this.cleanupAnimations();
     }
+    this.summaryAbortController?.abort();
 
     this.currentNote = {
       id: `note_${Date.now()}`,
+      title: '',
       rawTranscription: '',
       polishedNote: '',
+      segmentCount: 0,
+      providerId: this.getDefaultProviderId(),
+      templateId: this.getDefaultTemplateId(),
+      spokenLanguage: this.getDefaultSpokenLanguage(),
+      outputLanguage: this.getDefaultOutputLanguage(),
       timestamp: Date.now(),
+      updatedAt: Date.now(),
     };
 
     this.segmentCount = 0;
@@ -1131,6 +3679,24 @@ class VoiceNotesApp {
     this.accumulatedPolishedNote = '';
     this.processingQueue = [];
     this.isProcessingSegment = false;
+    this.pendingSummarySegments = [];
+    this.pendingConsolidation = false;
+    this.failedSegments = [];
+    this.renderFailedSegments();
+    this.notePlayer?.clear();
+
+    if (this.providerSelect) {
+      this.providerSelect.value = this.currentNote.providerId!;
+    }
+    this.refreshTemplateSelect();
+    this.updateLanguageSelects();
+    this.renderActionItems();
+    void this.updateUsageIndicator();
+    this.chatHistory = [];
+    this.renderChat();
+    if (this.participantsInput) {
+      this.participantsInput.value = '';
+    }
 
     this.setPlaceholder(this.rawTranscription);
     this.setPlaceholder(this.polishedNote);
@@ -1138,6 +3704,9 @@ class VoiceNotesApp {
 
     this.setStatus(MESSAGES.READY_TO_RECORD);
 
+    this.notesList?.querySelectorAll('.note-list-item.active')
+      .forEach(item => item.classList.remove('active'));
+
     if (this.isRecording) {
       this.stopDualRecording();
     } else {
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type LanguageCode = 'pt' | 'en' | 'es' | 'fr' | 'de' | 'it';
+
+// Língua falada no áudio: uma língua fixa ou deteção automática em cada segmento
+export type SpokenLanguage = LanguageCode | 'auto';
+
+export interface LanguageInfo {
+  label: string;
+  // Nome usado nas instruções enviadas ao modelo
+  promptName: string;
+  locale: string;
+}
+
+export const DEFAULT_OUTPUT_LANGUAGE: LanguageCode = 'pt';
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  pt: { label: 'Português', promptName: 'português', locale: 'pt-PT' },
+  en: { label: 'Inglês', promptName: 'inglês', locale: 'en-GB' },
+  es: { label: 'Espanhol', promptName: 'espanhol', locale: 'es-ES' },
+  fr: { label: 'Francês', promptName: 'francês', locale: 'fr-FR' },
+  de: { label: 'Alemão', promptName: 'alemão', locale: 'de-DE' },
+  it: { label: 'Italiano', promptName: 'italiano', locale: 'it-IT' },
+};
+
+export const AUTO_DETECT_LABEL = 'Deteção automática';
+
+export function getLanguage(code: string | undefined): LanguageInfo {
+  return LANGUAGES[code as LanguageCode] || LANGUAGES[DEFAULT_OUTPUT_LANGUAGE];
+}
+
+export function getTranscriptionInstructions(language: SpokenLanguage): string {
+  if (language === 'auto') {
+    return 'Gere uma transcrição completa e detalhada deste áudio. Deteta automaticamente a língua falada ' +
+      'e transcreve cada intervenção na língua em que foi dita, sem traduzir (a conversa pode misturar várias línguas).';
+  }
+  return `Gere uma transcrição completa e detalhada deste áudio, falado em ${LANGUAGES[language].promptName}. ` +
+    'Transcreve na língua original, sem traduzir.';
+}
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { formatTimestamp } from './transcript';
+
+// Segmento de áudio posicionado na linha temporal da nota (em segundos)
+export interface PlaybackSegment {
+  offset: number;
+  duration: number;
+  blob: Blob;
+}
+
+export interface NotePlayerElements {
+  container: HTMLElement;
+  toggleButton: HTMLButtonElement;
+  seekInput: HTMLInputElement;
+  timeLabel: HTMLElement;
+}
+
+// Reproduz os segmentos gravados de uma nota como uma única linha temporal
+export class NotePlayer {
+  private audio = new Audio();
+  private segments: PlaybackSegment[] = [];
+  private currentIndex = -1;
+  private objectUrl: string | null = null;
+
+  constructor(private elements: NotePlayerElements) {
+    this.audio.preload = 'auto';
+    this.audio.addEventListener('timeupdate', () => this.updateProgress());
+    this.audio.addEventListener('ended', () => this.playNextSegment());
+    this.audio.addEventListener('play', () => this.updateToggleIcon());
+    this.audio.addEventListener('pause', () => this.updateToggleIcon());
+
+    elements.toggleButton.addEventListener('click', () => this.toggle());
+    elements.seekInput.addEventListener('input', () => {
+      this.seek(Number(elements.seekInput.value), !this.audio.paused);
+    });
+  }
+
+  get duration(): number {
+    const last = this.segments[this.segments.length - 1];
+    return last ? last.offset + last.duration : 0;
+  }
+
+  get hasAudio(): boolean {
+    return this.segments.length > 0;
+  }
+
+  load(segments: PlaybackSegment[]): void {
+    this.clear();
+    this.segments = [...segments].sort((a, b) => a.offset - b.offset);
+    this.elements.container.classList.toggle('hidden', !this.hasAudio);
+    this.elements.seekInput.max = String(Math.ceil(this.duration));
+    this.updateProgress();
+  }
+
+  clear(): void {
+    this.audio.pause();
+    this.audio.removeAttribute('src');
+    this.releaseObjectUrl();
+    this.segments = [];
+    this.currentIndex = -1;
+    this.elements.container.classList.add('hidden');
+    this.elements.seekInput.value = '0';
+    this.updateToggleIcon();
+  }
+
+  toggle(): void {
+    if (!this.hasAudio) return;
+
+    if (this.audio.paused) {
+      if (this.currentIndex < 0) {
+        this.seek(0);
+      } else {
+        this.audio.play().catch(error => console.error('Erro ao reproduzir o áudio:', error));
+      }
+    } else {
+      this.audio.pause();
+    }
+  }
+
+  // Posiciona a reprodução num instante da nota (em segundos)
+  seek(seconds: number, autoplay: boolean = true): void {
+    if (!this.hasAudio) return;
+
+    const time = Math.max(0, Math.min(seconds, this.duration));
+    // Nas zonas de sobreposição prefere-se o segmento anterior, que já contém esse áudio
+    let index = this.segments.findIndex(segment => time < segment.offset + segment.duration);
+    if (index < 0) index = this.segments.length - 1;
+
+    this.loadSegment(index, Math.max(0, time - this.segments[index].offset), autoplay);
+  }
+
+  private loadSegment(index: number, localTime: number, autoplay: boolean): void {
+    const segment = this.segments[index];
+
+    const start = () => {
+      this.audio.currentTime = localTime;
+      if (autoplay) {
+        this.audio.play().catch(error => console.error('Erro ao reproduzir o áudio:', error));
+      }
+    };
+
+    if (index === this.currentIndex) {
+      start();
+      return;
+    }
+
+    this.releaseObjectUrl();
+    this.currentIndex = index;
+    this.objectUrl = URL.createObjectURL(segment.blob);
+    this.audio.src = this.objectUrl;
+    this.audio.addEventListener('loadedmetadata', start, { once: true });
+  }
+
+  // Continua no segmento seguinte a partir do ponto onde o atual terminou
+  private playNextSegment(): void {
+    const current = this.segments[this.currentIndex];
+    const next = this.segments[this.currentIndex + 1];
+    if (!current || !next) {
+      this.updateToggleIcon();
+      return;
+    }
+
+    const endTime = current.offset + current.duration;
+    this.loadSegment(this.currentIndex + 1, Math.max(0, endTime - next.offset), true);
+  }
+
+  private get currentTime(): number {
+    const segment = this.segments[this.currentIndex];
+    return segment ? segment.offset + this.audio.currentTime : 0;
+  }
+
+  private updateProgress(): void {
+    this.elements.seekInput.value = String(Math.floor(this.currentTime));
+    this.elements.timeLabel.textContent = `${formatTimestamp(this.currentTime)} / ${formatTimestamp(this.duration)}`;
+  }
+
+  private updateToggleIcon(): void {
+    const icon = this.elements.toggleButton.querySelector('i');
+    if (!icon) return;
+
+    icon.classList.toggle('fa-play', this.audio.paused);
+    icon.classList.toggle('fa-pause', !this.audio.paused);
+  }
+
+  private releaseObjectUrl(): void {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, MediaModality } from '@google/genai';
+import { normalizeSpeakerLabel, splitSpeakerLabel } from './speakers';
+import type { ProviderId, TokenUsage, TranscriptUtterance } from './types';
+
+const OPENAI_COMPATIBLE_SETTINGS_KEY = 'openAICompatibleSettings';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'Compatível com OpenAI',
+};
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  // Instruções para modelos multimodais (ignoradas por endpoints de transcrição dedicados)
+  instructions: string;
+  // Código ISO 639-1 da língua falada; omitido para deteção automática
+  language?: string;
+  // Termos do glossário (usados como 'prompt' pelos endpoints de transcrição dedicados)
+  vocabulary?: string[];
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface GenerateOptions {
+  // Pede ao modelo uma resposta em JSON (quando a API o suporta)
+  json?: boolean;
+  // Com 'onText' a resposta é recebida em streaming; cada chamada recebe o texto acumulado até ao momento
+  onText?: (text: string) => void;
+  // Cancela o pedido em curso (por exemplo, quando um novo segmento o torna obsoleto)
+  signal?: AbortSignal;
+  // Tokens consumidos, comunicados quando a resposta termina
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// Interface comum para os passos de transcrição e de resumo
+export interface NoteProvider {
+  readonly id: ProviderId;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptUtterance[]>;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Indica se o fornecedor aceita áudio comprimido neste formato
+  acceptsAudioType(mimeType: string): boolean;
+}
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  apiKey: string;
+  transcriptionModel: string;
+  chatModel: string;
+}
+
+const DEFAULT_OPENAI_COMPATIBLE_SETTINGS: OpenAICompatibleSettings = {
+  baseUrl: 'http://localhost:8000/v1',
+  apiKey: '',
+  transcriptionModel: 'whisper-1',
+  chatModel: 'gpt-4o-mini',
+};
+
+export function loadOpenAICompatibleSettings(): OpenAICompatibleSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(OPENAI_COMPATIBLE_SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_OPENAI_COMPATIBLE_SETTINGS, ...saved };
+  } catch {
+    return { ...DEFAULT_OPENAI_COMPATIBLE_SETTINGS };
+  }
+}
+
+export function saveOpenAICompatibleSettings(settings: OpenAICompatibleSettings): void {
+  localStorage.setItem(OPENAI_COMPATIBLE_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Erro HTTP com o código de estado, usado pela lógica de repetição
+class ProviderHttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+// Metadados de consumo do Gemini (os tokens de raciocínio são cobrados como saída)
+function getGeminiUsage(model: string, metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage {
+  return {
+    model,
+    inputTokens: metadata?.promptTokenCount || 0,
+    outputTokens: (metadata?.candidatesTokenCount || 0) + (metadata?.thoughtsTokenCount || 0),
+    audioInputTokens: metadata?.promptTokensDetails
+      ?.filter(detail => detail.modality === MediaModality.AUDIO)
+      .reduce((total, detail) => total + (detail.tokenCount || 0), 0),
+  };
+}
+
+function getBaseMimeType(mimeType: string): string {
+  return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+const TIMESTAMP_LINE_REGEX = /^\[(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:[.,]\d+)?\]\s*(.*)$/;
+
+// Converte linhas no formato "[mm:ss] texto" (ou "[mm:ss] [Orador N] texto") em intervenções
+export function parseTimestampedTranscript(text: string): TranscriptUtterance[] {
+  const utterances: TranscriptUtterance[] = [];
+
+  text.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+    const match = line.match(TIMESTAMP_LINE_REGEX);
+    if (match) {
+      const [, hours, minutes, seconds, content] = match;
+      const start = Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+      const { speaker, text } = splitSpeakerLabel(content.trim());
+      if (text) utterances.push({ start, text, ...(speaker ? { speaker } : {}) });
+    } else if (utterances.length > 0) {
+      utterances[utterances.length - 1].text += ` ${line}`;
+    } else {
+      utterances.push({ start: 0, text: line });
+    }
+  });
+
+  return utterances;
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        const base64data = reader.result as string;
+        resolve(base64data.split(',')[1]);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Formatos de áudio documentados para cada API
+const GEMINI_AUDIO_TYPES = ['audio/wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac'];
+const OPENAI_AUDIO_TYPES = ['audio/flac', 'audio/mp3', 'audio/mpeg', 'audio/mp4', 'audio/m4a', 'audio/ogg', 'audio/wav', 'audio/webm'];
+
+export class GeminiProvider implements NoteProvider {
+  readonly id = 'gemini';
+  private genAI: GoogleGenAI;
+
+  constructor(apiKey: string, private transcriptionModel: string, private summaryModel: string) {
+    this.genAI = new GoogleGenAI({
+      apiKey,
+      apiVersion: 'v1beta',
+    });
+  }
+
+  async transcribe({ audio, instructions, onUsage }: TranscriptionRequest): Promise<TranscriptUtterance[]> {
+    const base64Audio = await blobToBase64(audio);
+
+    if (!base64Audio) {
+      throw new Error('Falha ao converter áudio para base64');
+    }
+
+    const response = await this.genAI.models.generateContent({
+      model: this.transcriptionModel,
+      contents: [
+        {
+          text: `${instructions}\n\nDivide a transcrição em intervenções, uma por linha, no formato ` +
+            '"[mm:ss] texto", em que mm:ss é o instante de início relativo ao começo do áudio.',
+        },
+        { inlineData: { mimeType: audio.type || 'audio/wav', data: base64Audio } },
+      ],
+    });
+    onUsage?.(getGeminiUsage(this.transcriptionModel, response.usageMetadata));
+    return parseTimestampedTranscript(response.text || '');
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const request = {
+      model: this.summaryModel,
+      contents: [{ text: prompt }],
+      config: options.json ? { responseMimeType: 'application/json' } : undefined,
+    };
+
+    options.signal?.throwIfAborted();
+    if (!options.onText) {
+      const response = await this.genAI.models.generateContent(request);
+      options.onUsage?.(getGeminiUsage(this.summaryModel, response.usageMetadata));
+      options.signal?.throwIfAborted();
+      return response.text || '';
+    }
+
+    // Esta versão do SDK não aceita AbortSignal: ao cancelar deixa-se de consumir o stream, o que o fecha
+    let text = '';
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of await this.genAI.models.generateContentStream(request)) {
+      if (options.signal?.aborted) break;
+      text += chunk.text || '';
+      usage = chunk.usageMetadata || usage;
+      options.onText(text);
+    }
+    // Um pedido cancelado também consome tokens
+    options.onUsage?.(getGeminiUsage(this.summaryModel, usage));
+    options.signal?.throwIfAborted();
+    return text;
+  }
+
+  acceptsAudioType(mimeType: string): boolean {
+    return GEMINI_AUDIO_TYPES.includes(getBaseMimeType(mimeType));
+  }
+}
+
+// Servidores compatíveis com a API da OpenAI (ex.: whisper.cpp, vLLM, LocalAI, Ollama)
+export class OpenAICompatibleProvider implements NoteProvider {
+  readonly id = 'openai-compatible';
+
+  constructor(private settings: OpenAICompatibleSettings) {}
+
+  private get baseUrl(): string {
+    return this.settings.baseUrl.replace(/\/+$/, '');
+  }
+
+  private get headers(): Record<string, string> {
+    return this.settings.apiKey ? { Authorization: `Bearer ${this.settings.apiKey}` } : {};
+  }
+
+  private async fetchResponse(path: string, init: RequestInit): Promise<Response> {
+    if (!this.settings.baseUrl) {
+      throw new Error('URL do servidor compatível com OpenAI não configurado');
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, init);
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new ProviderHttpError(`got status: ${response.status} ${response.statusText}. ${body}`, response.status);
+    }
+    return response;
+  }
+
+  private async request(path: string, init: RequestInit): Promise<any> {
+    return (await this.fetchResponse(path, init)).json();
+  }
+
+  private getChatUsage(usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): TokenUsage {
+    return {
+      model: this.settings.chatModel,
+      inputTokens: Number(usage?.prompt_tokens) || 0,
+      outputTokens: Number(usage?.completion_tokens) || 0,
+    };
+  }
+
+  // Lê as linhas "data: {...}" de uma resposta em streaming (server-sent events)
+  private async readEventStream(response: Response, options: GenerateOptions): Promise<string> {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+
+        const event = JSON.parse(data);
+        usage = event?.usage || usage;
+        const delta = event?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          options.onText?.(text);
+        }
+      }
+    }
+    options.onUsage?.(this.getChatUsage(usage));
+    return text;
+  }
+
+  async transcribe({ audio, language, vocabulary, onUsage }: TranscriptionRequest): Promise<TranscriptUtterance[]> {
+    const extension = audio.type.split('/')[1]?.split(';')[0] || 'wav';
+    const form = new FormData();
+    form.append('file', audio, `audio.${extension}`);
+    form.append('model', this.settings.transcriptionModel);
+    form.append('response_format', 'verbose_json');
+    if (language) {
+      form.append('language', language);
+    }
+    if (vocabulary?.length) {
+      form.append('prompt', vocabulary.join(', '));
+    }
+
+    const result = await this.request('/audio/transcriptions', {
+      method: 'POST',
+      headers: this.headers,
+      body: form,
+    });
+    onUsage?.({
+      model: this.settings.transcriptionModel,
+      inputTokens: Number(result?.usage?.input_tokens) || 0,
+      outputTokens: Number(result?.usage?.output_tokens) || 0,
+      audioSeconds: result?.duration !== undefined ? Number(result.duration) : undefined,
+    });
+
+    // Servidores sem suporte a 'verbose_json' devolvem apenas o texto
+    if (Array.isArray(result?.segments) && result.segments.length > 0) {
+      return result.segments
+        .map((segment: { start?: number; end?: number; text?: string; speaker?: string }) => ({
+          start: Number(segment.start) || 0,
+          end: segment.end !== undefined ? Number(segment.end) : undefined,
+          text: String(segment.text || '').trim(),
+          // Servidores com diarização (ex.: whisperX) indicam o orador de cada segmento
+          speaker: segment.speaker ? normalizeSpeakerLabel(String(segment.speaker)) : undefined,
+        }))
+        .filter((utterance: TranscriptUtterance) => utterance.text);
+    }
+    return result?.text ? [{ start: 0, text: String(result.text).trim() }] : [];
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const init: RequestInit = {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      signal: options.signal,
+      body: JSON.stringify({
+        model: this.settings.chatModel,
+        messages: [{ role: 'user', content: prompt }],
+        ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+        // 'include_usage' acrescenta o consumo ao último evento do stream
+        ...(options.onText ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    };
+
+    if (options.onText) {
+      return this.readEventStream(await this.fetchResponse('/chat/completions', init), options);
+    }
+
+    const result = await this.request('/chat/completions', init);
+    options.onUsage?.(this.getChatUsage(result?.usage));
+    return result?.choices?.[0]?.message?.content || '';
+  }
+
+  acceptsAudioType(mimeType: string): boolean {
+    return OPENAI_AUDIO_TYPES.includes(getBaseMimeType(mimeType));
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+// Extrai o código HTTP de um erro (propriedade 'status' ou mensagem "got status: 503")
+function getErrorStatus(error: unknown): number | null {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/got status: (\d{3})/);
+  return match ? Number(match[1]) : null;
+}
+
+// Erros temporários: limite de pedidos, falhas do servidor e falhas de rede
+export function isTransientError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== null) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  return error instanceof TypeError;
+}
+
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { maxRetries, baseDelayMs, maxDelayMs = 60 * 1000, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+
+      // Backoff exponencial com alguma aleatoriedade para evitar pedidos sincronizados
+      const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+      onRetry?.(attempt + 1, delayMs, error);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { normalizeWord } from './transcript';
+import type { Note } from './types';
+
+export type SearchField = 'title' | 'polishedNote' | 'rawTranscription';
+
+// Intervalo de datas da nota (início da gravação), em milissegundos
+export interface SearchFilters {
+  from?: number;
+  to?: number;
+}
+
+// Passagem onde os termos aparecem; 'snippet' é HTML com os termos em <mark>
+export interface SearchMatch {
+  field: SearchField;
+  passage: string;
+  snippet: string;
+  timestamp?: number;
+}
+
+export interface SearchResult {
+  note: Note;
+  matches: SearchMatch[];
+  score: number;
+}
+
+// Passagem de uma nota recuperada para responder a uma pergunta
+interface RetrievedPassage {
+  note: Note;
+  field: SearchField;
+  text: string;
+  timestamp?: number;
+  score: number;
+}
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'polishedNote', 'rawTranscription'];
+// Peso de cada campo na ordenação dos resultados
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 5, polishedNote: 2, rawTranscription: 1 };
+
+const MAX_MATCHES_PER_NOTE = 3;
+const SNIPPET_WORDS_BEFORE = 8;
+const SNIPPET_WORDS_AFTER = 16;
+
+// Linhas vizinhas incluídas em cada passagem recuperada e tamanho mínimo dos termos da pergunta
+const PASSAGE_CONTEXT_LINES = 1;
+const MIN_RETRIEVAL_TERM_LENGTH = 3;
+
+const TIMESTAMP_REGEX = /\[(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\]/;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function tokenize(text: string): string[] {
+  return text.split(/\s+/).map(normalizeWord).filter(Boolean);
+}
+
+// Instante "[mm:ss]" mencionado na passagem, em segundos
+function findTimestamp(passage: string): number | undefined {
+  const match = passage.match(TIMESTAMP_REGEX);
+  if (!match) return undefined;
+  const [, hours, minutes, seconds] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+// Texto da linha sem a marcação Markdown mais comum
+function stripMarkdown(line: string): string {
+  return line
+    .replace(/^\s*(?:#{1,6}|[-*+]|\d+\.|>)\s+/, '')
+    .replace(/[*_`]+/g, '')
+    .trim();
+}
+
+function matchesTerm(word: string, terms: string[]): boolean {
+  const normalized = normalizeWord(word);
+  return normalized !== '' && terms.some(term => normalized.startsWith(term));
+}
+
+// Excerto à volta da primeira ocorrência, com todas as ocorrências destacadas
+export function highlightTerms(text: string, terms: string[], limitWords: boolean = true): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const first = Math.max(0, words.findIndex(word => matchesTerm(word, terms)));
+  const start = limitWords ? Math.max(0, first - SNIPPET_WORDS_BEFORE) : 0;
+  const end = limitWords ? Math.min(words.length, first + SNIPPET_WORDS_AFTER) : words.length;
+
+  const html = words.slice(start, end)
+    .map(word => matchesTerm(word, terms) ? `<mark>${escapeHtml(word)}</mark>` : escapeHtml(word))
+    .join(' ');
+
+  return `${start > 0 ? '… ' : ''}${html}${end < words.length ? ' …' : ''}`;
+}
+
+// Índice invertido em memória (termo → notas), reconstruído sempre que a biblioteca muda
+export class SearchIndex {
+  private notes = new Map<string, Note>();
+  private postings = new Map<string, Set<string>>();
+
+  build(notes: Note[]): void {
+    this.notes.clear();
+    this.postings.clear();
+
+    notes.forEach(note => {
+      this.notes.set(note.id, note);
+      SEARCH_FIELDS.forEach(field => {
+        tokenize(note[field] || '').forEach(token => {
+          let ids = this.postings.get(token);
+          if (!ids) {
+            ids = new Set();
+            this.postings.set(token, ids);
+          }
+          ids.add(note.id);
+        });
+      });
+    });
+  }
+
+  // Notas com alguma palavra começada pelo termo
+  private getNoteIdsWith(term: string): Set<string> {
+    const ids = new Set<string>();
+    this.postings.forEach((noteIds, token) => {
+      if (token.startsWith(term)) noteIds.forEach(id => ids.add(id));
+    });
+    return ids;
+  }
+
+  // Todas as palavras da pesquisa têm de aparecer na nota (como prefixo de uma palavra)
+  search(query: string, filters: SearchFilters = {}): SearchResult[] {
+    const terms = [...new Set(tokenize(query))];
+    let candidates: string[] = [...this.notes.keys()];
+
+    terms.forEach(term => {
+      const ids = this.getNoteIdsWith(term);
+      candidates = candidates.filter(id => ids.has(id));
+    });
+
+    return candidates
+      .map(id => this.notes.get(id)!)
+      .filter(note => {
+        const date = note.recordingStartedAt ?? note.timestamp;
+        return (filters.from === undefined || date >= filters.from) &&
+          (filters.to === undefined || date <= filters.to);
+      })
+      .map(note => this.buildResult(note, terms))
+      .sort((a, b) => b.score - a.score || b.note.timestamp - a.note.timestamp);
+  }
+
+  // Linhas com mais termos da pergunta, pesados pela raridade de cada termo na biblioteca (IDF)
+  retrievePassages(question: string, limit: number): RetrievedPassage[] {
+    const notes = [...this.notes.values()];
+    const terms = [...new Set(tokenize(question))].filter(term => term.length >= MIN_RETRIEVAL_TERM_LENGTH);
+    const weights = new Map(terms.map(term => {
+      const frequency = this.getNoteIdsWith(term).size;
+      return [term, frequency > 0 ? Math.log(1 + notes.length / frequency) : 0];
+    }));
+
+    const passages: RetrievedPassage[] = [];
+    notes.forEach(note => {
+      (['rawTranscription', 'polishedNote'] as SearchField[]).forEach(field => {
+        const lines = (note[field] || '').split('\n');
+        lines.forEach((line, index) => {
+          const words = new Set(tokenize(line));
+          let score = 0;
+          weights.forEach((weight, term) => {
+            if ([...words].some(word => word.startsWith(term))) score += weight;
+          });
+          if (score <= 0) return;
+
+          const text = lines
+            .slice(Math.max(0, index - PASSAGE_CONTEXT_LINES), index + PASSAGE_CONTEXT_LINES + 1)
+            .map(contextLine => contextLine.trim())
+            .filter(Boolean)
+            .join('\n');
+          passages.push({ note, field, text, timestamp: findTimestamp(line), score });
+        });
+      });
+    });
+
+    return passages.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private buildResult(note: Note, terms: string[]): SearchResult {
+    const matches: SearchMatch[] = [];
+    let score = 0;
+    if (terms.length === 0) return { note, matches, score };
+
+    SEARCH_FIELDS.forEach(field => {
+      (note[field] || '').split('\n').forEach(line => {
+        const passage = field === 'polishedNote' ? stripMarkdown(line) : line.trim();
+        const hits = passage.split(/\s+/).filter(word => matchesTerm(word, terms)).length;
+        if (hits === 0) return;
+
+        score += hits * FIELD_WEIGHTS[field];
+        // O título aparece no próprio resultado, não como excerto
+        if (field !== 'title') {
+          matches.push({ field, passage, snippet: highlightTerms(passage, terms), timestamp: findTimestamp(passage) });
+        }
+      });
+    });
+
+    return { note, matches: matches.slice(0, MAX_MATCHES_PER_NOTE), score };
+  }
+}
+
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const SETTINGS_KEY = 'voiceNotesAppSettings';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// 'wav': WAV 16 kHz mono; 'compressed': áudio original (Opus) quando o fornecedor o aceita, senão FLAC 16 kHz mono
+export type UploadFormat = 'wav' | 'compressed';
+
+// Ao exceder o orçamento mensal: apenas avisar, ou parar também as atualizações automáticas do resumo
+export type BudgetAction = 'warn' | 'stop';
+
+// Definições guardadas apenas neste navegador (incluindo a chave API)
+export interface AppSettings {
+  geminiApiKey: string;
+  geminiTranscriptionModel: string;
+  geminiSummaryModel: string;
+  segmentDurationSeconds: number;
+  segmentOverlapSeconds: number;
+  uploadFormat: UploadFormat;
+  // Orçamento mensal em dólares (0 = sem limite)
+  monthlyBudgetUsd: number;
+  budgetAction: BudgetAction;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  geminiApiKey: '',
+  geminiTranscriptionModel: DEFAULT_GEMINI_MODEL,
+  geminiSummaryModel: DEFAULT_GEMINI_MODEL,
+  segmentDurationSeconds: 120,
+  segmentOverlapSeconds: 3,
+  uploadFormat: 'wav',
+  monthlyBudgetUsd: 0,
+  budgetAction: 'warn',
+};
+
+export const SEGMENT_DURATION_LIMITS = { min: 30, max: 600 };
+export const SEGMENT_OVERLAP_LIMITS = { min: 0, max: 10 };
+
+export interface SegmentationTiming {
+  targetMs: number;
+  minMs: number;
+  maxMs: number;
+  overlapMs: number;
+}
+
+function clamp(value: number, limits: { min: number; max: number }, fallback: number): number {
+  return Number.isFinite(value) ? Math.min(limits.max, Math.max(limits.min, value)) : fallback;
+}
+
+export function loadSettings(): AppSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_SETTINGS, ...saved };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// A chave definida no navegador tem prioridade sobre a incluída no build (API_KEY em .env.local)
+export function getGeminiApiKey(settings: AppSettings): string {
+  return settings.geminiApiKey.trim() || process.env.API_KEY || '';
+}
+
+// Limites de corte derivados da duração alvo (por omissão 1m30 / 2m / 3m)
+export function getSegmentationTiming(settings: AppSettings): SegmentationTiming {
+  const targetMs = clamp(settings.segmentDurationSeconds, SEGMENT_DURATION_LIMITS, DEFAULT_SETTINGS.segmentDurationSeconds) * 1000;
+  const overlapMs = clamp(settings.segmentOverlapSeconds, SEGMENT_OVERLAP_LIMITS, DEFAULT_SETTINGS.segmentOverlapSeconds) * 1000;
+
+  return {
+    targetMs,
+    minMs: targetMs * 0.75,
+    maxMs: targetMs * 1.5,
+    overlapMs,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Note } from './types';
+
+// Etiqueta atribuída a cada voz distinta ("Orador 1", "Orador 2", ...)
+export const SPEAKER_LABEL_PREFIX = 'Orador';
+
+// Etiquetas devolvidas pelos modelos e servidores de diarização: "Orador 2", "Speaker 2", "SPEAKER_01"
+const SPEAKER_LABEL_REGEX = /^(?:orador|speaker|locutor|interlocutor)(_?)\s*(\d{1,2})$/i;
+const LEADING_SPEAKER_REGEX = /^\[([^\]]{1,30})\]\s*:?\s*(.*)$/;
+const TRANSCRIPT_SPEAKER_REGEX = new RegExp(`\\[(${SPEAKER_LABEL_PREFIX} \\d{1,2})\\]`, 'g');
+
+// Normaliza uma etiqueta de orador para "Orador N"; devolve undefined se não for uma etiqueta
+export function normalizeSpeakerLabel(label: string): string | undefined {
+  const match = label.trim().match(SPEAKER_LABEL_REGEX);
+  if (!match) return undefined;
+
+  // O formato "SPEAKER_00" (pyannote/whisperX) começa a contar em zero
+  const number = Number(match[2]) + (match[1] ? 1 : 0);
+  return `${SPEAKER_LABEL_PREFIX} ${number}`;
+}
+
+// Separa a etiqueta inicial "[Orador N]" do texto de uma intervenção
+export function splitSpeakerLabel(text: string): { speaker?: string; text: string } {
+  const match = text.match(LEADING_SPEAKER_REGEX);
+  const speaker = match ? normalizeSpeakerLabel(match[1]) : undefined;
+  return speaker ? { speaker, text: match![2].trim() } : { text };
+}
+
+export function getDiarizationInstructions(previousTurns: string): string {
+  return 'Identifica as diferentes vozes e começa cada intervenção pela etiqueta do orador, a seguir ao instante: ' +
+    `"[mm:ss] [${SPEAKER_LABEL_PREFIX} 1] texto". Cada voz distinta tem um número próprio, mantido em todo o áudio.` +
+    (previousTurns
+      ? `\nO áudio continua uma gravação anterior; as últimas intervenções foram estas. ` +
+        `Usa as mesmas etiquetas para as mesmas vozes e números novos apenas para vozes novas:\n${previousTurns}`
+      : '');
+}
+
+// Nome dado pelo utilizador a uma etiqueta, ou a própria etiqueta
+export function getSpeakerName(note: Note | null | undefined, label: string): string {
+  return note?.speakerNames?.[label]?.trim() || label;
+}
+
+// Etiquetas presentes na transcrição ainda sem nome, mais as que já foram renomeadas
+export function listSpeakers(note: Note, transcript: string): string[] {
+  const labels = new Set(Object.keys(note.speakerNames || {}));
+  for (const match of transcript.matchAll(TRANSCRIPT_SPEAKER_REGEX)) {
+    labels.add(match[1]);
+  }
+  return [...labels].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+// Substitui o nome do orador nas etiquetas "[mm:ss] [nome]" da transcrição
+export function renameSpeakerInTranscript(transcript: string, previousName: string, newName: string): string {
+  const escaped = previousName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const regex = new RegExp(`^(\\[(?:\\d{1,2}:)?\\d{1,2}:\\d{2}\\] )\\[${escaped}\\]`, 'gm');
+  return transcript.replace(regex, (_, timestamp) => `${timestamp}[${newName}]`);
+}
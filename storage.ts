@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Note, StoredSegment, UsageRecord } from './types';
+
+const DB_NAME = 'voiceNotesApp';
+const DB_VERSION = 3;
+const NOTES_STORE = 'notes';
+const SEGMENTS_STORE = 'segments';
+const USAGE_STORE = 'usage';
+
+// Chaves do formato antigo (texto acumulado no localStorage)
+const LEGACY_NOTES_KEY = 'voiceNotesAppNotas';
+const LEGACY_MIGRATED_KEY = 'voiceNotesAppNotasMigrated';
+
+const LEGACY_HEADER_REGEX =
+  /^=== (.*?)(?: \((\d+) segmentos\))? - (\d{1,2})\/(\d{1,2})\/(\d{4}) às (\d{1,2}):(\d{2}):(\d{2}) ===$/gm;
+
+// Utilitário para converter um IDBRequest numa Promise
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Utilitário para aguardar a conclusão de uma transação
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Converte o texto acumulado do formato antigo em notas individuais
+export function parseLegacyNotes(content: string): Note[] {
+  const notes: Note[] = [];
+  const headers = [...content.matchAll(LEGACY_HEADER_REGEX)];
+
+  headers.forEach((match, index) => {
+    const [header, title, segments, day, month, year, hours, minutes, seconds] = match;
+    const bodyStart = match.index! + header.length;
+    const bodyEnd = index + 1 < headers.length ? headers[index + 1].index! : content.length;
+    const body = content.slice(bodyStart, bodyEnd).trim();
+
+    const timestamp = new Date(
+      Number(year), Number(month) - 1, Number(day),
+      Number(hours), Number(minutes), Number(seconds)
+    ).getTime();
+
+    notes.push({
+      id: `note_${timestamp}_${index}`,
+      title: title.trim() || 'Nota sem título',
+      rawTranscription: '',
+      polishedNote: body,
+      segmentCount: segments ? Number(segments) : 0,
+      timestamp,
+      updatedAt: timestamp,
+    });
+  });
+
+  return notes;
+}
+
+export class NoteStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(NOTES_STORE)) {
+            const store = db.createObjectStore(NOTES_STORE, { keyPath: 'id' });
+            store.createIndex('timestamp', 'timestamp');
+          }
+          if (!db.objectStoreNames.contains(SEGMENTS_STORE)) {
+            const store = db.createObjectStore(SEGMENTS_STORE, { keyPath: 'id' });
+            store.createIndex('noteId', 'noteId');
+          }
+          if (!db.objectStoreNames.contains(USAGE_STORE)) {
+            const store = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+            store.createIndex('noteId', 'noteId');
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async getAllNotes(): Promise<Note[]> {
+    const db = await this.openDatabase();
+    const store = db.transaction(NOTES_STORE, 'readonly').objectStore(NOTES_STORE);
+    const notes = await promisifyRequest(store.getAll() as IDBRequest<Note[]>);
+    return notes.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getNote(id: string): Promise<Note | undefined> {
+    const db = await this.openDatabase();
+    const store = db.transaction(NOTES_STORE, 'readonly').objectStore(NOTES_STORE);
+    return promisifyRequest(store.get(id) as IDBRequest<Note | undefined>);
+  }
+
+  async saveNote(note: Note): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(NOTES_STORE, 'readwrite');
+    transaction.objectStore(NOTES_STORE).put(note);
+    await promisifyTransaction(transaction);
+  }
+
+  async deleteNote(id: string): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([NOTES_STORE, SEGMENTS_STORE], 'readwrite');
+    transaction.objectStore(NOTES_STORE).delete(id);
+    transaction.objectStore(SEGMENTS_STORE).index('noteId').openKeyCursor(IDBKeyRange.only(id)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (cursor) {
+        transaction.objectStore(SEGMENTS_STORE).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    await promisifyTransaction(transaction);
+  }
+
+  async getUnfinishedNotes(): Promise<Note[]> {
+    const notes = await this.getAllNotes();
+    return notes.filter(note => note.recordingStatus === 'recording');
+  }
+
+  // Segmentos de áudio
+  async saveSegment(segment: StoredSegment): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(SEGMENTS_STORE, 'readwrite');
+    transaction.objectStore(SEGMENTS_STORE).put(segment);
+    await promisifyTransaction(transaction);
+  }
+
+  async getSegment(id: string): Promise<StoredSegment | undefined> {
+    const db = await this.openDatabase();
+    const store = db.transaction(SEGMENTS_STORE, 'readonly').objectStore(SEGMENTS_STORE);
+    return promisifyRequest(store.get(id) as IDBRequest<StoredSegment | undefined>);
+  }
+
+  async getSegments(noteId: string): Promise<StoredSegment[]> {
+    const db = await this.openDatabase();
+    const index = db.transaction(SEGMENTS_STORE, 'readonly').objectStore(SEGMENTS_STORE).index('noteId');
+    const segments = await promisifyRequest(index.getAll(IDBKeyRange.only(noteId)) as IDBRequest<StoredSegment[]>);
+    return segments.sort((a, b) => a.segmentNumber - b.segmentNumber);
+  }
+
+  // Consumo de tokens; mantido mesmo depois de eliminar a nota, para os totais mensais
+  async saveUsage(record: UsageRecord): Promise<void> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(USAGE_STORE, 'readwrite');
+    transaction.objectStore(USAGE_STORE).put(record);
+    await promisifyTransaction(transaction);
+  }
+
+  async getAllUsage(): Promise<UsageRecord[]> {
+    const db = await this.openDatabase();
+    const store = db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE);
+    return promisifyRequest(store.getAll() as IDBRequest<UsageRecord[]>);
+  }
+
+  // Migração única do texto acumulado em 'voiceNotesAppNotas'
+  async migrateLegacyNotes(): Promise<number> {
+    if (localStorage.getItem(LEGACY_MIGRATED_KEY)) return 0;
+
+    const legacyContent = localStorage.getItem(LEGACY_NOTES_KEY) || '';
+    const notes = parseLegacyNotes(legacyContent);
+
+    if (notes.length > 0) {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(NOTES_STORE, 'readwrite');
+      const store = transaction.objectStore(NOTES_STORE);
+      notes.forEach(note => store.put(note));
+      await promisifyTransaction(transaction);
+    }
+
+    // O texto original é mantido como cópia de segurança
+    localStorage.setItem(LEGACY_MIGRATED_KEY, String(Date.now()));
+    return notes.length;
+  }
+}
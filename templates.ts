@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const CUSTOM_TEMPLATES_KEY = 'summaryTemplates';
+
+// Formato de saída pedido ao modelo; aceita as variáveis {{data}}, {{titulo}} e {{participantes}}
+export interface SummaryTemplate {
+  id: string;
+  name: string;
+  format: string;
+  builtIn?: boolean;
+}
+
+export interface TemplateVariables {
+  data: string;
+  titulo: string;
+  participantes: string;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'meeting';
+
+export const BUILT_IN_TEMPLATES: SummaryTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Reunião',
+    builtIn: true,
+    format: `# Notas da Reunião
+
+**Data:** {{data}} (usa a data da reunião se estiver presente)
+**Participantes:** {{participantes}}
+
+---
+
+## 1. Tópicos Principais
+- Resumo geral em 3-5 linhas sobre o que foi discutido.
+
+## 2. Pontos Detalhados
+- Usa listas ou subtítulos curtos (###) para separar temas.
+- Cada ponto deve conter apenas informação factual mencionada.
+- Não usar frases genéricas tipo "a conversa foi produtiva".
+
+## 3. Decisões e Ações
+- Lista apenas ações concretas e responsabilidades se existirem.
+
+---`,
+  },
+  {
+    id: 'standup',
+    name: 'Daily standup',
+    builtIn: true,
+    format: `# Daily Standup
+
+**Data:** {{data}}
+**Participantes:** {{participantes}}
+
+---
+
+## Atualizações por pessoa
+### (nome da pessoa)
+- **Feito desde o último standup:** ...
+- **Planeado para hoje:** ...
+- **Bloqueios:** ... (ou "nenhum")
+
+## Bloqueios a resolver
+- Lista os bloqueios que precisam de ajuda, com quem os pode resolver.
+
+## Ações
+- Ações combinadas e responsáveis.
+
+---`,
+  },
+  {
+    id: 'one-on-one',
+    name: 'Reunião 1:1',
+    builtIn: true,
+    format: `# 1:1 — {{titulo}}
+
+**Data:** {{data}}
+**Participantes:** {{participantes}}
+
+---
+
+## Contexto e bem-estar
+- Como a pessoa está e o contexto atual.
+
+## Progresso e conquistas
+- Trabalho concluído ou em curso.
+
+## Feedback
+- Feedback dado e recebido, em ambos os sentidos.
+
+## Preocupações e bloqueios
+
+## Desenvolvimento e objetivos
+- Objetivos de carreira e de aprendizagem mencionados.
+
+## Próximos passos
+- Ações combinadas, com responsável e prazo se mencionados.
+
+---`,
+  },
+  {
+    id: 'client-interview',
+    name: 'Entrevista a cliente',
+    builtIn: true,
+    format: `# Entrevista — {{titulo}}
+
+**Data:** {{data}}
+**Participantes:** {{participantes}}
+
+---
+
+## Perfil do cliente
+- Quem é, função, empresa e contexto.
+
+## Necessidades e problemas
+- Problemas descritos pelo cliente, pela ordem de importância que lhes deu.
+
+## Citações relevantes
+- Frases literais do cliente, entre aspas.
+
+## Objeções e dúvidas
+
+## Oportunidades
+- Oportunidades identificadas a partir do que foi dito (sem inventar).
+
+## Próximos passos
+
+---`,
+  },
+  {
+    id: 'lecture',
+    name: 'Aula / palestra',
+    builtIn: true,
+    format: `# {{titulo}}
+
+**Data:** {{data}}
+**Oradores:** {{participantes}}
+
+---
+
+## Resumo
+- Resumo da aula em 3-5 linhas.
+
+## Conceitos-chave
+- **Termo:** definição tal como foi explicada.
+
+## Desenvolvimento por tema
+### (tema)
+- Explicação estruturada, incluindo fórmulas, datas e exemplos mencionados.
+
+## Perguntas e respostas
+- Perguntas feitas pela audiência e respetivas respostas.
+
+## Para rever
+- Leituras, trabalhos ou tópicos indicados para estudo.
+
+---`,
+  },
+  {
+    id: 'brainstorming',
+    name: 'Brainstorming',
+    builtIn: true,
+    format: `# Brainstorming — {{titulo}}
+
+**Data:** {{data}}
+**Participantes:** {{participantes}}
+
+---
+
+## Objetivo
+- O problema ou pergunta em discussão.
+
+## Ideias
+### (tema)
+- Todas as ideias propostas, agrupadas por tema, sem as avaliar.
+
+## Ideias mais promissoras
+- Ideias que reuniram mais apoio, com os argumentos apresentados.
+
+## Riscos e preocupações
+
+## Decisões e próximos passos
+
+---`,
+  },
+];
+
+export function loadCustomTemplates(): SummaryTemplate[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_TEMPLATES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomTemplates(templates: SummaryTemplate[]): void {
+  localStorage.setItem(CUSTOM_TEMPLATES_KEY, JSON.stringify(templates.map(({ builtIn, ...template }) => template)));
+}
+
+export function getAllTemplates(): SummaryTemplate[] {
+  return [...BUILT_IN_TEMPLATES, ...loadCustomTemplates()];
+}
+
+// Modelos apagados entretanto são substituídos pelo modelo por omissão
+export function getTemplate(id: string | undefined): SummaryTemplate {
+  return getAllTemplates().find(template => template.id === id) || BUILT_IN_TEMPLATES[0];
+}
+
+export function renderTemplate(format: string, variables: TemplateVariables): string {
+  return format.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in variables ? variables[name as keyof TemplateVariables] : placeholder);
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { TranscriptUtterance } from './types';
+
+// Janela de palavras comparada em cada lado da fronteira entre segmentos
+const OVERLAP_WINDOW_WORDS = 80;
+const MIN_OVERLAP_WORDS = 3;
+// O texto duplicado tem de estar perto do início do novo segmento e do fim do anterior
+const MAX_OVERLAP_START_WORDS = 20;
+const MAX_OVERLAP_END_DISTANCE_WORDS = 10;
+
+interface WordRef {
+  utterance: number;
+  word: number;
+  normalized: string;
+}
+
+// Minúsculas, sem acentos nem pontuação (comparação de palavras)
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+// Maior sequência contígua de palavras comum às duas listas
+function longestCommonRun(a: string[], b: string[]): { length: number; endA: number; endB: number } {
+  let best = { length: 0, endA: -1, endB: -1 };
+  let previous = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      if (a[i - 1] === b[j - 1]) {
+        current[j] = previous[j - 1] + 1;
+        if (current[j] > best.length) {
+          best = { length: current[j], endA: i - 1, endB: j - 1 };
+        }
+      }
+    }
+    previous = current;
+  }
+
+  return best;
+}
+
+// Remove do início do novo segmento o texto já transcrito no fim do segmento anterior
+export function trimLeadingOverlap(previousText: string, next: TranscriptUtterance[]): TranscriptUtterance[] {
+  const previousWords = previousText.split(/\s+/)
+    .map(normalizeWord)
+    .filter(Boolean)
+    .slice(-OVERLAP_WINDOW_WORDS);
+
+  const nextWords: WordRef[] = [];
+  next.forEach((utterance, utteranceIndex) => {
+    utterance.text.split(/\s+/).forEach((word, wordIndex) => {
+      const normalized = normalizeWord(word);
+      if (normalized && nextWords.length < OVERLAP_WINDOW_WORDS) {
+        nextWords.push({ utterance: utteranceIndex, word: wordIndex, normalized });
+      }
+    });
+  });
+
+  const run = longestCommonRun(previousWords, nextWords.map(ref => ref.normalized));
+  const startB = run.endB - run.length + 1;
+
+  if (run.length < MIN_OVERLAP_WORDS ||
+    startB > MAX_OVERLAP_START_WORDS ||
+    previousWords.length - 1 - run.endA > MAX_OVERLAP_END_DISTANCE_WORDS) {
+    return next;
+  }
+
+  const cut = nextWords[run.endB];
+  return next
+    .slice(cut.utterance)
+    .map((utterance, index) => index === 0
+      ? { ...utterance, text: utterance.text.split(/\s+/).slice(cut.word + 1).join(' ') }
+      : utterance)
+    .filter(utterance => utterance.text.trim());
+}
+
+// Formata segundos como "mm:ss" (ou "h:mm:ss" a partir de uma hora)
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${String(minutes).padStart(2, '0')}:${rest}`;
+}
+
+const TIMESTAMP_MARK_REGEX = /\[(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\]/g;
+
+// Transforma as marcas "[mm:ss]" de um HTML em elementos com o instante em segundos
+export function linkTimestamps(html: string): string {
+  return html.replace(TIMESTAMP_MARK_REGEX, (mark, hours, minutes, seconds) => {
+    const time = Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+    return `<span class="timestamp-link" data-time="${time}">${mark}</span>`;
+  });
+}
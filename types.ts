@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Tipos partilhados entre a aplicação e os módulos de suporte
+
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+export interface Note {
+  id: string;
+  title: string;
+  rawTranscription: string;
+  polishedNote: string;
+  // HTML editado pelo utilizador (quando difere do Markdown gerado)
+  polishedHtml?: string;
+  segmentCount: number;
+  // Fornecedor usado na transcrição e no resumo desta nota
+  providerId?: ProviderId;
+  // 'recording' enquanto a sessão de gravação não terminar corretamente
+  recordingStatus?: 'recording' | 'complete';
+  // Início do primeiro segmento; as marcas de tempo da transcrição são relativas a este instante
+  recordingStartedAt?: number;
+  // Modelo de resumo usado na nota melhorada e participantes indicados pelo utilizador
+  templateId?: string;
+  participants?: string;
+  // Nomes dados às etiquetas de diarização (ex.: { "Orador 2": "Ana" })
+  speakerNames?: Record<string, string>;
+  // Vocabulário próprio desta nota, somado ao glossário global
+  glossary?: GlossaryEntry[];
+  // Língua falada no áudio ('auto' para deteção por segmento) e língua da nota melhorada
+  spokenLanguage?: string;
+  outputLanguage?: string;
+  actionItems?: ActionItem[];
+  timestamp: number;
+  updatedAt: number;
+}
+
+// Ação extraída da reunião; 'timestamp' é o instante (em segundos) em que foi combinada
+export interface ActionItem {
+  id: string;
+  description: string;
+  owner?: string;
+  dueDate?: string;
+  timestamp?: number;
+  done: boolean;
+}
+
+// Termo com a grafia correta e as variantes erradas que devem ser corrigidas na transcrição
+export interface GlossaryEntry {
+  term: string;
+  variants: string[];
+}
+
+// Consumo devolvido pelo fornecedor num pedido; 'audioInputTokens' está incluído em 'inputTokens'
+export interface TokenUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  audioInputTokens?: number;
+  // Duração do áudio enviado (os endpoints de transcrição dedicados cobram por minuto)
+  audioSeconds?: number;
+}
+
+export type UsageKind = 'transcription' | 'summary' | 'actions' | 'chat';
+
+// Registo de consumo de um pedido, guardado no IndexedDB; 'cost' em dólares (null se o preço do modelo for desconhecido)
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  noteId: string;
+  kind: UsageKind;
+  providerId: ProviderId;
+  segmentNumber?: number;
+  cost: number | null;
+  timestamp: number;
+}
+
+// Mensagem do painel de perguntas: sobre a nota aberta ou sobre toda a biblioteca
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  scope: 'note' | 'all';
+}
+
+// Origem do áudio: microfone do utilizador ou áudio da aba da reunião
+export type AudioSource = 'me' | 'meeting';
+
+// Intervenção transcrita com o instante de início (segundos desde o início do segmento)
+export interface TranscriptUtterance {
+  start: number;
+  end?: number;
+  text: string;
+  source?: AudioSource;
+  // Etiqueta de diarização ("Orador N") dentro da mesma origem
+  speaker?: string;
+}
+
+export interface AudioSegment {
+  blob: Blob;
+  startTime: number;
+  endTime: number;
+  segmentNumber: number;
+  // Origem de cada canal da gravação (ex.: ['meeting', 'me'] em estéreo)
+  channels?: AudioSource[];
+}
+
+// 'silent': segmento sem fala detetada, não enviado para transcrição
+export type SegmentStatus = 'pending' | 'transcribed' | 'failed' | 'silent';
+
+// Segmento de áudio guardado no IndexedDB junto da respetiva nota
+export interface StoredSegment extends AudioSegment {
+  id: string;
+  noteId: string;
+  status: SegmentStatus;
+  transcription?: string;
+  utterances?: TranscriptUtterance[];
+  // Última mensagem de erro quando status === 'failed'
+  error?: string;
+  // Formato e tamanho do áudio efetivamente enviado para transcrição
+  uploadFormat?: string;
+  uploadBytes?: number;
+  // Duração (ms) da pausa da gravação imediatamente antes deste segmento
+  pauseBeforeMs?: number;
+  // Origens sem qualquer fala durante o segmento (ex.: partilha da aba terminada), não enviadas para transcrição
+  silentChannels?: AudioSource[];
+}
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Note, TokenUsage, UsageKind, UsageRecord } from './types';
+
+// Preços públicos em dólares: por milhão de tokens, ou por minuto de áudio nos endpoints de transcrição
+interface ModelPrice {
+  input?: number;
+  audioInput?: number;
+  output?: number;
+  perAudioMinute?: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.30, audioInput: 1.00, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, audioInput: 0.30, output: 0.40 },
+  'gemini-2.0-flash': { input: 0.10, audioInput: 0.70, output: 0.40 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  'gpt-4o': { input: 2.50, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o-transcribe': { perAudioMinute: 0.006 },
+  'gpt-4o-mini-transcribe': { perAudioMinute: 0.003 },
+  'whisper-1': { perAudioMinute: 0.006 },
+};
+
+const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+  transcription: 'Transcrição',
+  summary: 'Resumo',
+  actions: 'Ações',
+  chat: 'Perguntas',
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  cost: number;
+  // Pedidos a modelos sem preço conhecido (ex.: servidores locais), não incluídos no custo
+  unpricedCalls: number;
+}
+
+// Preço do modelo; versões com sufixo (ex.: "gemini-2.5-flash-preview-05-20") usam o nome base mais longo
+function getModelPrice(model: string): ModelPrice | undefined {
+  const name = model.toLowerCase().replace(/^models\//, '');
+  const match = Object.keys(MODEL_PRICES)
+    .filter(key => name === key || name.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : undefined;
+}
+
+export function estimateCost(usage: TokenUsage): number | null {
+  const price = getModelPrice(usage.model);
+  if (!price) return null;
+
+  if (price.perAudioMinute !== undefined) {
+    return ((usage.audioSeconds || 0) / 60) * price.perAudioMinute;
+  }
+
+  const audioTokens = usage.audioInputTokens || 0;
+  const textTokens = Math.max(0, usage.inputTokens - audioTokens);
+  return (
+    textTokens * (price.input || 0) +
+    audioTokens * (price.audioInput ?? price.input ?? 0) +
+    usage.outputTokens * (price.output || 0)
+  ) / 1_000_000;
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce((totals, record) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    audioSeconds: totals.audioSeconds + (record.audioSeconds || 0),
+    cost: totals.cost + (record.cost || 0),
+    unpricedCalls: totals.unpricedCalls + (record.cost === null ? 1 : 0),
+  }), { calls: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, cost: 0, unpricedCalls: 0 });
+}
+
+// Mês civil no formato "AAAA-MM" (hora local)
+export function getMonthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function groupUsageByMonth(records: UsageRecord[]): [string, UsageTotals][] {
+  const months = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const key = getMonthKey(record.timestamp);
+    months.set(key, [...(months.get(key) || []), record]);
+  });
+
+  return [...months.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([month, monthRecords]) => [month, summarizeUsage(monthRecords)]);
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function escapeCsv(value: string): string {
+  return /[",;\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Um registo por pedido, com a nota e o segmento a que pertence
+export function usageToCsv(records: UsageRecord[], notes: Note[]): string {
+  const titles = new Map(notes.map(note => [note.id, note.title]));
+  const header = ['Data', 'Mês', 'Nota', 'Segmento', 'Tipo', 'Fornecedor', 'Modelo',
+    'Tokens de entrada', 'Tokens de áudio', 'Tokens de saída', 'Segundos de áudio', 'Custo (USD)'];
+
+  const rows = [...records]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(record => [
+      new Date(record.timestamp).toISOString(),
+      getMonthKey(record.timestamp),
+      titles.get(record.noteId) || record.noteId,
+      record.segmentNumber !== undefined ? String(record.segmentNumber) : '',
+      USAGE_KIND_LABELS[record.kind],
+      record.providerId,
+      record.model,
+      String(record.inputTokens),
+      String(record.audioInputTokens || 0),
+      String(record.outputTokens),
+      record.audioSeconds !== undefined ? record.audioSeconds.toFixed(1) : '',
+      record.cost !== null ? record.cost.toFixed(6) : '',
+    ]);
+
+  // BOM para que o Excel reconheça o UTF-8
+  return '\ufeff' + [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}